@@ -11,13 +11,29 @@
  *   mcpmon deno run server.ts
  */
 
-import { resolve, dirname, extname, join } from "path";
+import { resolve, dirname, extname, join, basename } from "path";
 import { fileURLToPath } from "url";
+import { spawnSync } from "child_process";
+import { mkdirSync, openSync, readFileSync } from "fs";
+import { ReadStream } from "tty";
 import { Command } from "commander";
 import { NodeFileSystem } from "./node/NodeFileSystem.js";
 import { NodeProcessManager } from "./node/NodeProcessManager.js";
 import { MCPProxy } from "./proxy.js";
+import { KEYBOARD_HELP, KeyboardControls } from "./keyboard.js";
+import { ControlServer, defaultControlSocketPath } from "./control.js";
+import {
+  InstanceRegistry,
+  logsCommand,
+  psCommand,
+  restartCommand,
+  stopCommand,
+} from "./registry.js";
 import { setupCommand } from "./setup.js";
+import { createProcessLogger, parseLogFormat, resolveLogLevel } from "./logger.js";
+import { LogFiles, parseByteSize, serverLogPath } from "./log-file.js";
+import { TranscriptFile } from "./transcript.js";
+import type { Logger } from "./logger.js";
 
 // Check if we're running on an outdated Node.js version
 const nodeVersion = process.version;
@@ -34,6 +50,9 @@ const __dirname = dirname(__filename);
 
 const program = new Command();
 
+// Replaced by the configured logger once the command line is parsed
+let logger: Logger = createProcessLogger();
+
 program
   .name('mcpmon')
   .description('Hot-reload monitor for MCP servers - like nodemon but for Model Context Protocol')
@@ -46,7 +65,30 @@ program
   .argument('[args...]', 'Arguments to pass to command')
   .option('--watch <paths>', 'Override files/directories to watch (comma-separated)')
   .option('--delay <ms>', 'Restart delay in milliseconds', '1000')
-  .option('--verbose', 'Enable verbose logging')
+  .option('--verbose', 'Enable verbose logging (same as --log-level debug)')
+  .option('--quiet', 'Only log errors (same as --log-level error)')
+  .option('--log-level <level>', 'Log level: error, warn, info, debug or trace (default: info)')
+  .option('--log-format <format>', 'Log format: text, or json for one structured record per line')
+  .option('--log-file <path>', 'Also write logs to <path> and server stderr to <name>.server.log')
+  .option('--log-file-size <size>', 'Rotate log files at this size, e.g. 512K or 10M (default: 10M)')
+  .option('--log-file-count <n>', 'Rotated log files to keep (default: 5)')
+  .option('--record <file>', 'Record every JSON-RPC message, restart and file change to <file> as JSON Lines')
+  .option('--ready-probe <type>', 'Detect restart readiness with a probe request (initialize|ping)')
+  .option('--ready-pattern <regex>', 'Treat a server stderr line matching <regex> as ready')
+  .option('--ready-timeout <ms>', 'Maximum time to wait for a restarted server to be ready', '2000')
+  .option('--retry-methods <methods>', 'Re-send these in-flight requests after a restart (comma-separated)')
+  .option('--drain-timeout <ms>', 'Wait up to <ms> for in-flight requests to finish before restarting')
+  .option('--strict-stdout', 'Redirect non-JSON-RPC server stdout to stderr instead of the client')
+  .option('--health-check <ms>', 'Ping the server every <ms> and restart it if it stops answering')
+  .option('--blue-green', 'Keep the old server running until the restarted one passes initialize and tools/list')
+  .option('--keys', 'Read keyboard commands from the terminal when run in the foreground')
+  .option('--name <name>', 'Server name used for the control socket (default: entry file name)')
+  .option('--control-socket', 'Accept JSON control commands on a Unix socket named after --name')
+  .option('--control-socket-path <path>', 'Accept JSON control commands on the Unix socket at <path>')
+  .option('--no-registry', 'Do not register this instance for mcpmon ps/restart/logs/stop')
+  .option('--control-tools', 'Give the assistant mcpmon tools to restart the server and read its logs')
+  .option('--control-tool-prefix <prefix>', 'Name prefix of the control tools (default: mcpmon_)')
+  .option('--build <command>', 'Run <command> before each restart and abort the restart if it fails (repeatable)', (value: string, previous: string[]) => [...previous, value], [])
   .addHelpText('after', `
 Examples:
   mcpmon node server.js
@@ -55,9 +97,37 @@ Examples:
   mcpmon node --inspect server.js
 
 Environment Variables:
-  MCPMON_WATCH     Override files/directories to watch (comma-separated)
-  MCPMON_DELAY     Restart delay in milliseconds (default: 1000)
-  MCPMON_VERBOSE   Enable verbose logging
+  MCPMON_WATCH          Override files/directories to watch (comma-separated)
+  MCPMON_DELAY          Restart delay in milliseconds (default: 1000)
+  MCPMON_VERBOSE        Enable verbose logging
+  MCPMON_QUIET          Only log errors
+  MCPMON_LOG_LEVEL      Log level (error|warn|info|debug|trace)
+  MCPMON_LOG_FORMAT     Log format (text|json)
+  MCPMON_LOG_FILE       Also write logs to this file (server stderr to <name>.server.log)
+  MCPMON_LOG_FILE_SIZE  Rotate log files at this size (default: 10M)
+  MCPMON_LOG_FILE_COUNT Rotated log files to keep (default: 5)
+  MCPMON_RECORD         Record the session's JSON-RPC traffic to this .jsonl file
+  MCPMON_READY_PROBE    Readiness probe after restart (initialize|ping)
+  MCPMON_READY_PATTERN  Stderr regex that marks a restarted server as ready
+  MCPMON_RETRY_METHODS  Idempotent methods to re-send after a restart (comma-separated)
+  MCPMON_DRAIN_TIMEOUT  Wait for in-flight requests before restarting (ms)
+  MCPMON_STRICT_STDOUT  Redirect non-JSON-RPC server stdout to stderr
+  MCPMON_HEALTH_CHECK   Health check ping interval in milliseconds
+  MCPMON_BLUE_GREEN     Validate the new server before stopping the old one
+  MCPMON_BUILD          Build commands to run before each restart (separated by ;)
+  MCPMON_KEYS           Read keyboard commands from the terminal
+  MCPMON_NAME           Server name used for the control socket
+  MCPMON_CONTROL_SOCKET Control socket path, or 1 for the default path
+  MCPMON_NO_REGISTRY    Do not register this instance for mcpmon ps
+  MCPMON_CONTROL_TOOLS  Add mcpmon's restart/logs/status/diff tools to the server's tools
+  MCPMON_CONTROL_TOOL_PREFIX  Name prefix of the control tools (default: mcpmon_)
+  MCPMON_RUNTIME_DIR    Where instances register (default: $XDG_RUNTIME_DIR/mcpmon or a temp dir)
+
+Keys (when run in a terminal):
+  r restart · l last diff · s status · c clear · q quit · h help
+
+Signals:
+  SIGHUP, SIGUSR2       Restart the server now (kill -HUP <mcpmon pid>)
 
 Like nodemon, but for Model Context Protocol servers.
 Automatically restarts your server when files change.
@@ -80,6 +150,9 @@ program
   .option('-l, --list', 'List available servers in the config')
   .option('--all', 'Setup all stdio servers')
   .option('--restore', 'Restore config from latest backup')
+  .option('--quiet', 'Only print errors')
+  .option('--log-level <level>', 'Log level: error, warn, info, debug or trace (default: info)')
+  .option('--log-format <format>', 'Log format: text, or json for one structured record per line')
   .addHelpText('after', `
 Examples:
   mcpmon setup my-server          # Configure my-server to use hot-reload
@@ -91,7 +164,79 @@ The setup command modifies your Claude Desktop or Claude Code configuration
 to wrap MCP servers with mcpmon for hot-reload capabilities. A backup is
 automatically created before any changes are made.
 `)
-  .action(setupCommand);
+  .action((serverName, options) => {
+    logger = createLogger(options, true);
+    setupCommand(serverName, options, logger);
+  });
+
+// Instance management subcommands
+program
+  .command('ps')
+  .description('List running mcpmon instances')
+  .option('--json', 'Print the registry entries as JSON')
+  .action(psCommand);
+
+program
+  .command('restart')
+  .description('Restart the server of a running mcpmon instance')
+  .argument('<target>', 'Instance name or PID (see mcpmon ps)')
+  .action(restartCommand);
+
+program
+  .command('logs')
+  .description("Print a running instance's recent server stderr")
+  .argument('<target>', 'Instance name or PID (see mcpmon ps)')
+  .option('-n, --tail <lines>', 'Number of lines', '100')
+  .action(logsCommand);
+
+program
+  .command('stop')
+  .description('Stop a running mcpmon instance and its server')
+  .argument('<target>', 'Instance name or PID (see mcpmon ps)')
+  .action(stopCommand);
+
+/**
+ * Build the logger from --log-level, --quiet, --verbose and --log-format or their MCPMON_*
+ * variables. Logs go to stderr - stdout belongs to MCP - unless infoToStdout is set.
+ *
+ * @throws Error if the level or format is invalid
+ */
+function createLogger(options: any, infoToStdout = false): Logger {
+  const level = resolveLogLevel({
+    logLevel: options.logLevel || process.env.MCPMON_LOG_LEVEL,
+    quiet: !!(options.quiet || process.env.MCPMON_QUIET),
+    verbose: !!(options.verbose || process.env.MCPMON_VERBOSE),
+  });
+  const format = parseLogFormat(options.logFormat || process.env.MCPMON_LOG_FORMAT || "text");
+  return createProcessLogger({ level, format, fields: { pid: process.pid }, infoToStdout });
+}
+
+/**
+ * Open the rotating log files of --log-file and --log-file-size/--log-file-count or their
+ * MCPMON_* variables, if a log file was requested
+ */
+function createLogFiles(options: any): LogFiles | undefined {
+  const logFile = options.logFile || process.env.MCPMON_LOG_FILE;
+  if (!logFile) return undefined;
+
+  const sizeOption = options.logFileSize || process.env.MCPMON_LOG_FILE_SIZE;
+  const countOption = options.logFileCount || process.env.MCPMON_LOG_FILE_COUNT;
+  const maxFiles = countOption !== undefined ? parseInt(countOption) : undefined;
+  if (maxFiles !== undefined && !(maxFiles >= 0)) {
+    throw new Error(`Invalid log file count "${countOption}" (expected 0 or more)`);
+  }
+
+  const path = resolve(logFile);
+  mkdirSync(dirname(path), { recursive: true });
+  const logFiles = new LogFiles(path, {
+    maxBytes: sizeOption ? parseByteSize(sizeOption) : undefined,
+    maxFiles,
+    onError: (error: any, file) => logger.warn(`⚠️  Cannot write log file ${file}: ${error.message}`),
+  });
+  process.on("exit", () => logFiles.close());
+  logger.debug(`📝 Logging to ${path} and ${serverLogPath(path)}`);
+  return logFiles;
+}
 
 function autoDetectWatchFile(command: string, args: string[]): string | null {
   // Look for the first file argument that looks like a script
@@ -123,16 +268,14 @@ async function runProxy(command: string, args: string[], options: any) {
     watchFile = watchPaths[0]; // Use first path for now
   }
 
-  // Set verbose mode from CLI option or environment variable
-  const verbose = options.verbose || process.env.MCPMON_VERBOSE;
-  if (verbose) {
-    console.error(`🔧 mcpmon starting...`);
-    console.error(`📟 Command: ${command} ${args.join(" ")}`);
-    if (watchFile) {
-      console.error(`👀 Watching: ${watchFile}`);
-    } else {
-      console.error(`⚠️  No file to watch detected`);
-    }
+  // Log level and format from CLI options or environment variables
+  logger = createLogger(options);
+  logger.debug(`🔧 mcpmon starting...`);
+  logger.debug(`📟 Command: ${command} ${args.join(" ")}`);
+  if (watchFile) {
+    logger.debug(`👀 Watching: ${watchFile}`);
+  } else {
+    logger.warn(`⚠️  No file to watch detected`);
   }
 
   // Create dependencies
@@ -177,6 +320,60 @@ async function runProxy(command: string, args: string[], options: any) {
   const restartDelay = options.delay ? parseInt(options.delay) : 
     (process.env.MCPMON_DELAY ? parseInt(process.env.MCPMON_DELAY) : 1000);
 
+  // Readiness detection after restart (falls back to the fixed ready delay)
+  const readyProbe = options.readyProbe || process.env.MCPMON_READY_PROBE;
+  if (readyProbe && !["initialize", "ping"].includes(readyProbe)) {
+    logger.error(`❌ Invalid --ready-probe "${readyProbe}" (expected initialize or ping)`);
+    process.exit(1);
+  }
+  const readyPattern = options.readyPattern || process.env.MCPMON_READY_PATTERN;
+
+  // In-flight requests for these methods are re-sent instead of failed when the server dies
+  const retryMethodsOption = options.retryMethods || process.env.MCPMON_RETRY_METHODS;
+  const retryMethods = retryMethodsOption
+    ? retryMethodsOption.split(",").map((m: string) => m.trim())
+    : undefined;
+
+  // Defer restarts until in-flight requests finish (0 = kill immediately)
+  const drainTimeoutOption = options.drainTimeout || process.env.MCPMON_DRAIN_TIMEOUT;
+  const drainTimeout = drainTimeoutOption ? parseInt(drainTimeoutOption) : 0;
+
+  // Keep stray server prints out of the MCP stream
+  const strictStdout = !!(options.strictStdout || process.env.MCPMON_STRICT_STDOUT);
+
+  // Restart servers that hang without exiting (0 = disabled)
+  const healthCheckOption = options.healthCheck || process.env.MCPMON_HEALTH_CHECK;
+  const healthCheckInterval = healthCheckOption ? parseInt(healthCheckOption) : 0;
+
+  // Only switch to a restarted server once it has proven healthy
+  const blueGreen = !!(options.blueGreen || process.env.MCPMON_BLUE_GREEN);
+
+  // Rebuild before restarting, e.g. --build "tsc -p ." for servers run from dist/
+  const buildCommands: string[] = options.build.length
+    ? options.build
+    : (process.env.MCPMON_BUILD || "").split(";").map((c) => c.trim()).filter(Boolean);
+
+  // Let the assistant restart the server and read its logs through proxy-owned tools
+  const controlTools = !!(options.controlTools || process.env.MCPMON_CONTROL_TOOLS);
+  const controlToolPrefix =
+    options.controlToolPrefix || process.env.MCPMON_CONTROL_TOOL_PREFIX || undefined;
+
+  // Keep logs in files of their own, next to whatever the MCP client does with stderr
+  const logFiles = createLogFiles(options);
+
+  // A transcript of the session's traffic, for "it stopped working after a reload" reports
+  const recordFile = options.record || process.env.MCPMON_RECORD;
+  let transcript: TranscriptFile | undefined;
+  if (recordFile) {
+    const path = resolve(recordFile);
+    mkdirSync(dirname(path), { recursive: true });
+    transcript = new TranscriptFile(path, (error: any) =>
+      logger.warn(`⚠️  Cannot write transcript ${path}: ${error.message}`)
+    );
+    process.on("exit", () => transcript!.close());
+    logger.info(`⏺️  Recording session to ${path}`);
+  }
+
   const proxy = new MCPProxy(
     {
       procManager,
@@ -185,6 +382,9 @@ async function runProxy(command: string, args: string[], options: any) {
       stdout,
       stderr,
       exit: (code: number) => process.exit(code),
+      logger,
+      logSink: logFiles,
+      transcript,
     },
     {
       command,
@@ -195,34 +395,175 @@ async function runProxy(command: string, args: string[], options: any) {
         Object.entries(process.env).filter(([_, value]) => value !== undefined)
       ) as Record<string, string>, // Pass through all environment variables
       killDelay: 1000,
-      readyDelay: 2000,
+      readyDelay: parseInt(options.readyTimeout),
+      readyProbe,
+      readyPattern,
+      retryMethods,
+      drainTimeout,
+      strictStdout,
+      healthCheckInterval,
+      blueGreen,
+      buildCommands,
+      controlTools,
+      controlToolPrefix,
     }
   );
 
   // Handle signals gracefully
   process.on("SIGINT", async () => {
-    if (verbose) {
-      console.error(`\n🛑 Received SIGINT, shutting down...`);
-    }
+    logger.debug(`\n🛑 Received SIGINT, shutting down...`);
     await proxy.shutdown();
     process.exit(0);
   });
 
   process.on("SIGTERM", async () => {
-    if (verbose) {
-      console.error(`\n🛑 Received SIGTERM, shutting down...`);
-    }
+    logger.debug(`\n🛑 Received SIGTERM, shutting down...`);
     await proxy.shutdown();
     process.exit(0);
   });
 
+  // Stdin belongs to MCP, so "restart now" is a signal: kill -HUP <mcpmon pid>
+  for (const signal of ["SIGHUP", "SIGUSR2"] as const) {
+    process.on(signal, () => {
+      proxy.forceRestart(signal).catch((error) => {
+        logger.error(`❌ Restart on ${signal} failed: ${error}`);
+      });
+    });
+  }
+
+  // Let editors and scripts drive this mcpmon, even when an MCP client launched it
+  // Registered instances always get a private socket in the runtime directory
+  const name = options.name || process.env.MCPMON_NAME || serverName(command, watchFile);
+  const registry =
+    options.registry && !process.env.MCPMON_NO_REGISTRY ? new InstanceRegistry() : null;
+  const runtime = registry ?? new InstanceRegistry();
+  const controlEnv = process.env.MCPMON_CONTROL_SOCKET;
+  const controlPath =
+    options.controlSocketPath || (controlEnv && !["1", "true"].includes(controlEnv) && controlEnv);
+  let socketPath: string | null = null;
+  if (controlPath) {
+    socketPath = resolve(controlPath);
+  } else if (options.controlSocket || controlEnv) {
+    socketPath = defaultControlSocketPath(name, runtime.dir);
+  } else if (registry) {
+    socketPath = join(registry.dir, `${process.pid}.sock`);
+  }
+
+  if (socketPath) {
+    const control = new ControlServer(proxy, socketPath, logger);
+    try {
+      if (dirname(socketPath) === runtime.dir) runtime.ensureDir();
+      await control.listen();
+      process.on("exit", () => control.close());
+      // Only worth mentioning by default when it was asked for
+      const level = options.controlSocket || controlPath ? "info" : "debug";
+      logger[level](`🎛️  Control socket listening on ${socketPath}`);
+    } catch (error: any) {
+      logger.warn(`⚠️  Control socket disabled: ${error.message}`);
+      socketPath = null;
+    }
+  }
+
+  // Let mcpmon ps/restart/logs/stop find this instance
+  if (registry) {
+    try {
+      registry.register({
+        pid: process.pid,
+        name,
+        command,
+        args,
+        watchTargets: watchFile ? [resolve(watchFile)] : [],
+        cwd: process.cwd(),
+        startedAt: Date.now(),
+        controlSocket: socketPath,
+      });
+      process.on("exit", () => registry.unregister(process.pid));
+    } catch (error: any) {
+      logger.warn(`⚠️  Could not register instance: ${error.message}`);
+    }
+  }
+
+  // Keystrokes come from the terminal itself; stdin is the MCP stream. Opt-in, and only while
+  // mcpmon is the terminal's foreground job: an MCP client in a terminal may let its servers
+  // inherit stderr, and mcpmon must not take over that client's tty.
+  if ((options.keys || process.env.MCPMON_KEYS) && process.stderr.isTTY && isForegroundProcess()) {
+    enableKeyboardControls(proxy, async () => {
+      await proxy.shutdown();
+      process.exit(0);
+    });
+  }
+
   // Start the proxy
   await proxy.start();
 }
 
+/**
+ * Name a server after its entry file (server.js -> "server"), falling back to the command
+ */
+function serverName(command: string, watchFile: string | null): string {
+  const file = watchFile || command;
+  return basename(file, extname(file));
+}
+
+/**
+ * Whether this process belongs to the foreground process group of its controlling terminal
+ * (pgrp equals tpgid), from /proc on Linux and ps elsewhere. false if that cannot be told.
+ */
+function isForegroundProcess(): boolean {
+  let fields: string[];
+  try {
+    const stat = readFileSync("/proc/self/stat", "utf8");
+    // After the command name: state ppid pgrp session tty_nr tpgid ...
+    const [, , pgrp, , , tpgid] = stat.slice(stat.lastIndexOf(")") + 2).split(" ");
+    fields = [pgrp, tpgid];
+  } catch {
+    const ps = spawnSync("ps", ["-o", "pgid=,tpgid=", "-p", String(process.pid)], {
+      encoding: "utf8",
+    });
+    fields = ps.status === 0 ? ps.stdout.trim().split(/\s+/) : [];
+  }
+  return fields.length === 2 && Number(fields[0]) > 0 && fields[0] === fields[1];
+}
+
+/**
+ * Read single-key commands from /dev/tty, if there is a controlling terminal
+ */
+function enableKeyboardControls(proxy: MCPProxy, quit: () => Promise<void>) {
+  let input: ReadStream;
+  try {
+    input = new ReadStream(openSync("/dev/tty", "r"));
+  } catch {
+    return; // No controlling terminal (or not a Unix-like platform)
+  }
+
+  // Raw mode delivers each key immediately and must be undone before the terminal is returned
+  input.setRawMode(true);
+  const restore = () => input.setRawMode(false);
+  process.on("exit", restore);
+
+  // Replies to keys the user pressed are not log messages: they go straight to stderr, whatever
+  // --quiet or --log-format say
+  const controls = new KeyboardControls(
+    proxy,
+    (text) => console.error(text),
+    async () => {
+      restore();
+      input.destroy();
+      await quit();
+    }
+  );
+  input.setEncoding("utf8");
+  input.on("data", (chunk: string) => {
+    controls.handleInput(chunk).catch((error) => {
+      logger.error(`❌ Keyboard command failed: ${error}`);
+    });
+  });
+  console.error(KEYBOARD_HELP);
+}
+
 // Handle unhandled rejections
 process.on("unhandledRejection", (reason, promise) => {
-  console.error("Unhandled Rejection at:", promise, "reason:", reason);
+  logger.error("Unhandled Rejection at:", promise, "reason:", reason);
   process.exit(1);
 });
 
@@ -230,9 +571,7 @@ process.on("unhandledRejection", (reason, promise) => {
 try {
   await program.parseAsync();
 } catch (error: any) {
-  console.error("❌ mcpmon failed to start:", error.message);
-  if (process.env.MCPMON_VERBOSE) {
-    console.error(error.stack);
-  }
+  logger.error("❌ mcpmon failed to start:", error.message);
+  logger.debug(error.stack);
   process.exit(1);
 }
@@ -0,0 +1,257 @@
+/**
+ * Local control socket
+ *
+ * Lets editor integrations and shell scripts drive a running mcpmon - including one launched by
+ * an MCP client, whose stdin and stdout belong to the protocol - over a Unix domain socket.
+ * Each line sent is a JSON request and is answered with one JSON line:
+ *
+ *   {"id": 1, "command": "logs", "tail": 20}
+ *   {"id": 1, "ok": true, "result": ["..."]}
+ */
+
+import { createConnection, createServer, Server, Socket } from "net";
+import { unlinkSync } from "fs";
+import { join } from "path";
+import type { Logger } from "./logger.js";
+import type { MCPProxy } from "./proxy.js";
+
+export const CONTROL_COMMANDS = [
+  "status",
+  "restart",
+  "logs",
+  "tools",
+  "pause-watch",
+  "resume-watch",
+] as const;
+
+export type ControlCommand = (typeof CONTROL_COMMANDS)[number];
+
+/**
+ * A request read from the control socket
+ */
+export interface ControlRequest {
+  /** Echoed in the response so clients can match replies */
+  id?: string | number;
+  command: ControlCommand;
+  /** restart: reason shown in the logs (default: "control socket") */
+  reason?: string;
+  /** logs: number of most recent lines (default: 100) */
+  tail?: number;
+}
+
+export interface ControlResponse {
+  id?: string | number;
+  ok: boolean;
+  result?: unknown;
+  error?: string;
+}
+
+/** The proxy operations the control protocol is built on */
+export type ControlTarget = Pick<
+  MCPProxy,
+  "getStatus" | "forceRestart" | "getRecentLogs" | "listTools" | "pauseWatching" | "resumeWatching"
+>;
+
+/**
+ * Default socket path for a server name in the runtime directory (see defaultRuntimeDir),
+ * e.g. /run/user/1000/mcpmon/mcpmon-weather.sock. The directory is private to the user, unlike
+ * the shared temp directory where another user could take a predictable name first.
+ */
+export function defaultControlSocketPath(name: string, runtimeDir: string): string {
+  const safeName = name.replace(/[^A-Za-z0-9._-]/g, "_") || "server";
+  return join(runtimeDir, `mcpmon-${safeName}.sock`);
+}
+
+/**
+ * Execute one control request against a proxy
+ */
+export async function handleControlRequest(
+  proxy: ControlTarget,
+  request: ControlRequest
+): Promise<ControlResponse> {
+  const id = request.id;
+  try {
+    switch (request.command) {
+      case "status":
+        return { id, ok: true, result: proxy.getStatus() };
+      case "restart":
+        await proxy.forceRestart(request.reason || "control socket");
+        return { id, ok: true, result: proxy.getStatus() };
+      case "logs":
+        return { id, ok: true, result: proxy.getRecentLogs(request.tail ?? 100) };
+      case "tools":
+        return { id, ok: true, result: await proxy.listTools() };
+      case "pause-watch":
+        proxy.pauseWatching();
+        return { id, ok: true, result: proxy.getStatus() };
+      case "resume-watch":
+        proxy.resumeWatching();
+        return { id, ok: true, result: proxy.getStatus() };
+      default:
+        return {
+          id,
+          ok: false,
+          error: `Unknown command "${request.command}" (expected ${CONTROL_COMMANDS.join(", ")})`,
+        };
+    }
+  } catch (error) {
+    return { id, ok: false, error: String(error) };
+  }
+}
+
+/**
+ * Parse a request line; malformed input becomes an error response instead
+ */
+function parseControlRequest(line: string): ControlRequest | ControlResponse {
+  let request: unknown;
+  try {
+    request = JSON.parse(line);
+  } catch {
+    return { ok: false, error: "Invalid JSON" };
+  }
+  if (typeof request !== "object" || request === null || !("command" in request)) {
+    return { ok: false, error: 'Expected an object with a "command" field' };
+  }
+  return request as ControlRequest;
+}
+
+/**
+ * Unix domain socket server speaking the control protocol
+ */
+export class ControlServer {
+  private server: Server | null = null;
+  private sockets = new Set<Socket>();
+
+  /**
+   * @param logger - Receives errors of the listening socket after listen() resolved
+   */
+  constructor(
+    private proxy: ControlTarget,
+    readonly path: string,
+    private logger: Logger = console
+  ) {}
+
+  /**
+   * Start listening. A stale socket file left by a crashed mcpmon is replaced; a socket another
+   * mcpmon is still listening on is an error.
+   */
+  async listen(): Promise<void> {
+    if (await isSocketAlive(this.path)) {
+      throw new Error(`Control socket ${this.path} is in use by another mcpmon`);
+    }
+    try {
+      unlinkSync(this.path);
+    } catch {
+      // Nothing stale to remove
+    }
+
+    const server = createServer((socket) => this.handleConnection(socket));
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      // Only the current user may drive this mcpmon: the socket is created with mode 0600 rather
+      // than tightened after the fact. listen() binds synchronously, so the umask is restored
+      // before anything else runs.
+      const umask = process.umask(0o177);
+      try {
+        server.listen(this.path, () => {
+          server.off("error", reject);
+          resolve();
+        });
+      } finally {
+        process.umask(umask);
+      }
+    });
+    server.on("error", (error) => this.logger.error(`❌ Control socket error: ${error}`));
+    server.unref();
+    this.server = server;
+  }
+
+  /**
+   * Stop listening and remove the socket file. Synchronous so it can run in an exit handler.
+   */
+  close() {
+    if (!this.server) return;
+    this.server.close();
+    this.server = null;
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+    try {
+      unlinkSync(this.path);
+    } catch {
+      // Already removed
+    }
+  }
+
+  private handleConnection(socket: Socket) {
+    this.sockets.add(socket);
+    socket.on("close", () => this.sockets.delete(socket));
+    socket.on("error", () => socket.destroy());
+    socket.setEncoding("utf8");
+
+    // Requests on one connection are answered in order
+    let buffer = "";
+    let queue = Promise.resolve();
+    socket.on("data", (chunk: string) => {
+      const lines = (buffer + chunk).split("\n");
+      buffer = lines.pop()!;
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        queue = queue.then(async () => {
+          const parsed = parseControlRequest(line);
+          const response =
+            "command" in parsed ? await handleControlRequest(this.proxy, parsed) : parsed;
+          if (!socket.destroyed) {
+            socket.write(JSON.stringify(response) + "\n");
+          }
+        });
+      }
+    });
+  }
+}
+
+/**
+ * Send one request to a running mcpmon's control socket and wait for its response
+ */
+export function sendControlRequest(
+  path: string,
+  request: ControlRequest,
+  timeoutMs = 30000
+): Promise<ControlResponse> {
+  return new Promise((resolve, reject) => {
+    const socket = createConnection(path);
+    let buffer = "";
+    socket.setEncoding("utf8");
+    socket.setTimeout(timeoutMs, () => {
+      socket.destroy();
+      reject(new Error(`No response from ${path} within ${timeoutMs}ms`));
+    });
+    socket.on("error", reject);
+    socket.on("data", (chunk: string) => {
+      buffer += chunk;
+      const newline = buffer.indexOf("\n");
+      if (newline === -1) return;
+      socket.end();
+      try {
+        resolve(JSON.parse(buffer.slice(0, newline)));
+      } catch {
+        reject(new Error(`Invalid response from ${path}`));
+      }
+    });
+    socket.write(JSON.stringify(request) + "\n");
+  });
+}
+
+/**
+ * Check whether something is accepting connections on a socket path
+ */
+export function isSocketAlive(path: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const probe = createConnection(path);
+    probe.once("connect", () => {
+      probe.destroy();
+      resolve(true);
+    });
+    probe.once("error", () => resolve(false));
+  });
+}
@@ -0,0 +1,212 @@
+/**
+ * Tool/resource/prompt diffing for hot-reload reports
+ *
+ * Compares the lists a server exposed before and after a restart so developers can confirm
+ * the client will see exactly the change they made: added, removed and renamed items, plus
+ * a field-level JSON diff for items whose schema, description or other metadata changed.
+ */
+
+/**
+ * A single changed field inside an item, addressed by a dotted path
+ * (e.g. "inputSchema.properties.query.type")
+ */
+export interface FieldChange {
+  path: string;
+  type: "added" | "removed" | "changed";
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * Differences between two versions of one list (tools, resources, templates or prompts)
+ */
+export interface ListDiff {
+  /** Keys of items only present in the new list */
+  added: string[];
+  /** Keys of items only present in the old list */
+  removed: string[];
+  /** Items whose key changed while everything else stayed identical */
+  renamed: Array<{ from: string; to: string }>;
+  /** Items present in both lists with different contents */
+  changed: Array<{ name: string; changes: FieldChange[] }>;
+}
+
+/**
+ * Everything that changed across one reload.
+ * A list is null when there was no previous snapshot to compare against.
+ */
+export interface ReloadDiff {
+  /** Server generation the diff leads to (increments on every server start) */
+  generation: number;
+  /** When the diff was computed (ms since epoch) */
+  timestamp: number;
+  tools: ListDiff | null;
+  resources: ListDiff | null;
+  resourceTemplates: ListDiff | null;
+  prompts: ListDiff | null;
+}
+
+/** Field identifying an item in each kind of list */
+const KEY_FIELDS: Record<string, string> = {
+  tools: "name",
+  prompts: "name",
+  resources: "uri",
+  resourceTemplates: "uriTemplate",
+};
+
+type Item = Record<string, unknown>;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Serialize with sorted object keys so key order never counts as a change
+ */
+function canonical(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    isPlainObject(v)
+      ? Object.fromEntries(
+          Object.keys(v)
+            .sort()
+            .map((k) => [k, v[k]])
+        )
+      : v
+  );
+}
+
+/**
+ * Field-level diff of two JSON values. Objects are compared key by key; arrays and
+ * primitives are compared as whole values.
+ */
+export function diffJson(before: unknown, after: unknown, path = ""): FieldChange[] {
+  if (canonical(before) === canonical(after)) {
+    return [];
+  }
+
+  if (!isPlainObject(before) || !isPlainObject(after)) {
+    return [{ path, type: "changed", before, after }];
+  }
+
+  const changes: FieldChange[] = [];
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+  for (const key of keys) {
+    const childPath = path ? `${path}.${key}` : key;
+    if (!(key in before)) {
+      changes.push({ path: childPath, type: "added", after: after[key] });
+    } else if (!(key in after)) {
+      changes.push({ path: childPath, type: "removed", before: before[key] });
+    } else {
+      changes.push(...diffJson(before[key], after[key], childPath));
+    }
+  }
+  return changes;
+}
+
+/**
+ * Compare two versions of a list
+ *
+ * @param field - List field name ("tools", "resources", "resourceTemplates" or "prompts")
+ * @param before - Items from the previous server generation
+ * @param after - Items from the new server generation
+ */
+export function diffLists(field: string, before: unknown[], after: unknown[]): ListDiff {
+  const keyField = KEY_FIELDS[field] || "name";
+  const keyOf = (item: Item) => String(item[keyField]);
+  const withoutKey = (item: Item) => canonical({ ...item, [keyField]: undefined });
+
+  const oldItems = new Map((before as Item[]).map((item) => [keyOf(item), item]));
+  const newItems = new Map((after as Item[]).map((item) => [keyOf(item), item]));
+
+  const diff: ListDiff = { added: [], removed: [], renamed: [], changed: [] };
+  const added = [...newItems.keys()].filter((key) => !oldItems.has(key));
+  const removed = [...oldItems.keys()].filter((key) => !newItems.has(key));
+
+  // An item that disappeared while an otherwise identical one appeared was renamed. Items
+  // with nothing besides their key are indistinguishable, so those are never paired up.
+  for (const from of removed) {
+    const body = withoutKey(oldItems.get(from)!);
+    const index =
+      body === "{}" ? -1 : added.findIndex((to) => withoutKey(newItems.get(to)!) === body);
+    if (index >= 0) {
+      diff.renamed.push({ from, to: added[index] });
+      added.splice(index, 1);
+    } else {
+      diff.removed.push(from);
+    }
+  }
+  diff.added = added;
+
+  for (const [key, oldItem] of oldItems) {
+    const newItem = newItems.get(key);
+    if (newItem) {
+      const changes = diffJson(oldItem, newItem);
+      if (changes.length > 0) {
+        diff.changed.push({ name: key, changes });
+      }
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Check whether a list diff contains no changes
+ */
+export function isEmptyDiff(diff: ListDiff): boolean {
+  return (
+    diff.added.length === 0 &&
+    diff.removed.length === 0 &&
+    diff.renamed.length === 0 &&
+    diff.changed.length === 0
+  );
+}
+
+function formatValue(value: unknown): string {
+  const text = value === undefined ? "undefined" : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+/**
+ * Render a reload diff as indented, human-readable lines for stderr
+ */
+export function formatReloadDiff(diff: ReloadDiff): string {
+  const lines: string[] = [];
+  const lists = {
+    tools: diff.tools,
+    resources: diff.resources,
+    resourceTemplates: diff.resourceTemplates,
+    prompts: diff.prompts,
+  };
+
+  for (const [field, list] of Object.entries(lists)) {
+    if (list === null) {
+      lines.push(`  ${field}: not compared (no previous snapshot)`);
+      continue;
+    }
+    if (isEmptyDiff(list)) continue;
+
+    lines.push(`  ${field}:`);
+    list.added.forEach((key) => lines.push(`    + ${key}`));
+    list.removed.forEach((key) => lines.push(`    - ${key}`));
+    list.renamed.forEach(({ from, to }) => lines.push(`    ↪ ${from} → ${to}`));
+    for (const { name, changes } of list.changed) {
+      lines.push(`    ~ ${name}`);
+      for (const change of changes) {
+        if (change.type === "added") {
+          lines.push(`        ${change.path}: added ${formatValue(change.after)}`);
+        } else if (change.type === "removed") {
+          lines.push(`        ${change.path}: removed ${formatValue(change.before)}`);
+        } else {
+          lines.push(
+            `        ${change.path || "(value)"}: ${formatValue(change.before)} → ${formatValue(change.after)}`
+          );
+        }
+      }
+    }
+  }
+
+  return lines.length > 0
+    ? `📝 Reload diff:\n${lines.join("\n")}`
+    : "📋 No tool, resource or prompt changes detected";
+}
@@ -0,0 +1,128 @@
+/**
+ * Typed lifecycle events for library users
+ *
+ * MCPProxy reports what happens to the server it manages - spawns, exits, restarts, file
+ * changes, the messages it forwards - as structured events, so a harness embedding the proxy
+ * can react to them instead of parsing the proxy's log lines.
+ */
+
+import type { ListDiff } from "./diff.js";
+import type { ChangeEventType } from "./interfaces.js";
+import type { Message } from "./proxy.js";
+
+/** What started a restart: a watched file, an explicit request, or the server exiting */
+export type RestartTrigger = "change" | "request" | "exit";
+
+/** Payload of each event, by event type */
+export interface ProxyEventMap {
+  /** A server process was spawned; candidate is true for a blue/green candidate under validation */
+  "server:spawn": {
+    pid: number | null;
+    generation: number;
+    command: string;
+    args: string[];
+    candidate: boolean;
+  };
+  /** A server process exited; expected is false when the proxy did not stop it (a crash) */
+  "server:exit": {
+    pid: number | null;
+    generation: number;
+    code: number | null;
+    signal: string | null;
+    expected: boolean;
+    uptimeMs: number;
+  };
+  /** A restart will start after delayMs (file changes are debounced, crash restarts backed off) */
+  "restart:scheduled": { reason: string; trigger: RestartTrigger; delayMs: number };
+  "restart:start": { reason: string; trigger: RestartTrigger };
+  "restart:complete": {
+    reason: string;
+    trigger: RestartTrigger;
+    pid: number | null;
+    generation: number;
+    durationMs: number;
+  };
+  /**
+   * A restart did not bring up a new server. After a failed build or blue/green validation the
+   * old server is still running; "crash-loop" means the proxy stopped retrying a crashing server.
+   */
+  "restart:failed": {
+    reason: string;
+    trigger: RestartTrigger;
+    stage: "build" | "spawn" | "validation" | "crash-loop";
+    error: string;
+    durationMs: number;
+  };
+  /** A watched file changed and what the proxy did about it */
+  change: {
+    changeType: ChangeEventType;
+    path: string;
+    action: "restart" | "ignored" | "deferred";
+  };
+  /** A JSON-RPC message from the client, before it is forwarded or answered */
+  "message:client": { message: Message };
+  /** A JSON-RPC message from the server, as forwarded to the client */
+  "message:server": { generation: number; message: Message };
+  /** The tools/list of a restarted server differs from the previous server's */
+  "tools:changed": { generation: number; diff: ListDiff };
+}
+
+export type ProxyEventType = keyof ProxyEventMap;
+
+/** An event with its type and the time it was emitted (ms since epoch) */
+export type ProxyEvent<T extends ProxyEventType = ProxyEventType> = {
+  [K in T]: { type: K; time: number } & ProxyEventMap[K];
+}[T];
+
+/** A listener for one event type, or for every event with "*" */
+export type ProxyEventListener<T extends ProxyEventType | "*"> = (
+  event: T extends ProxyEventType ? ProxyEvent<T> : ProxyEvent
+) => void;
+
+/**
+ * Synchronous, typed event emitter. A listener that throws is reported through onListenerError
+ * and never disturbs the proxy or the other listeners.
+ */
+export class ProxyEventEmitter {
+  private listeners = new Map<ProxyEventType | "*", Set<(event: ProxyEvent) => void>>();
+
+  constructor(private onListenerError: (error: unknown, event: ProxyEvent) => void) {}
+
+  /**
+   * Add a listener
+   *
+   * @returns A function that removes the listener again
+   */
+  on<T extends ProxyEventType | "*">(type: T, listener: ProxyEventListener<T>): () => void {
+    const listeners = this.listeners.get(type) ?? new Set();
+    listeners.add(listener as (event: ProxyEvent) => void);
+    this.listeners.set(type, listeners);
+    return () => this.off(type, listener);
+  }
+
+  off<T extends ProxyEventType | "*">(type: T, listener: ProxyEventListener<T>) {
+    this.listeners.get(type)?.delete(listener as (event: ProxyEvent) => void);
+  }
+
+  /**
+   * Whether anything listens for an event, so payloads that are costly to build (parsed server
+   * messages) are only built when needed
+   */
+  hasListeners(type: ProxyEventType): boolean {
+    return Boolean(this.listeners.get(type)?.size || this.listeners.get("*")?.size);
+  }
+
+  emit<T extends ProxyEventType>(type: T, payload: ProxyEventMap[T]) {
+    if (!this.hasListeners(type)) return;
+
+    const event = { ...payload, type, time: Date.now() } as ProxyEvent;
+    const listeners = [...(this.listeners.get(type) ?? []), ...(this.listeners.get("*") ?? [])];
+    for (const listener of listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        this.onListenerError(error, event);
+      }
+    }
+  }
+}
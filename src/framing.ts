@@ -0,0 +1,217 @@
+/**
+ * Byte-level framing for newline-delimited JSON-RPC
+ *
+ * Messages are split on newline bytes as chunks arrive, without decoding them to strings or
+ * rescanning earlier data, so multi-megabyte messages (base64 images, large resource reads)
+ * cost time linear in their size. peekEnvelope reads just the top-level id and method of a
+ * message, jumping over nested values, so the proxy only parses messages it must inspect.
+ */
+
+const NEWLINE = 0x0a;
+const QUOTE = 0x22;
+const BACKSLASH = 0x5c;
+const COLON = 0x3a;
+const COMMA = 0x2c;
+const OPEN_BRACE = 0x7b;
+const CLOSE_BRACE = 0x7d;
+const OPEN_BRACKET = 0x5b;
+const CLOSE_BRACKET = 0x5d;
+
+const decoder = new TextDecoder();
+
+/**
+ * Splits a byte stream into lines. Each line keeps its trailing newline so it can be
+ * forwarded as-is; lines contained in a single chunk are views into it, not copies.
+ */
+export class LineFramer {
+  private partial: Uint8Array[] = [];
+  private partialLength = 0;
+
+  /**
+   * Feed the next chunk and get every line it completes
+   */
+  push(chunk: Uint8Array): Uint8Array[] {
+    const lines: Uint8Array[] = [];
+    let start = 0;
+    let newline = chunk.indexOf(NEWLINE);
+
+    while (newline !== -1) {
+      const tail = chunk.subarray(start, newline + 1);
+      lines.push(this.partial.length > 0 ? this.join(tail) : tail);
+      start = newline + 1;
+      newline = chunk.indexOf(NEWLINE, start);
+    }
+
+    if (start < chunk.length) {
+      this.partial.push(chunk.subarray(start));
+      this.partialLength += chunk.length - start;
+    }
+    return lines;
+  }
+
+  /**
+   * Copy the buffered pieces of a line that spanned several chunks into one array, once
+   */
+  private join(tail: Uint8Array): Uint8Array {
+    const line = new Uint8Array(this.partialLength + tail.length);
+    let offset = 0;
+    for (const piece of this.partial) {
+      line.set(piece, offset);
+      offset += piece.length;
+    }
+    line.set(tail, offset);
+
+    this.partial = [];
+    this.partialLength = 0;
+    return line;
+  }
+}
+
+/**
+ * Top-level routing fields of a JSON-RPC message
+ */
+export interface Envelope {
+  /** The message id, or undefined for notifications */
+  id?: number | string | null;
+  /** The protocol version ("2.0" for valid JSON-RPC) */
+  jsonrpc?: unknown;
+  /** Whether the message has a method (request or notification rather than a response) */
+  hasMethod: boolean;
+}
+
+function isWhitespace(byte: number): boolean {
+  return byte === 0x20 || byte === 0x09 || byte === 0x0d || byte === NEWLINE;
+}
+
+function skipWhitespace(bytes: Uint8Array, i: number): number {
+  while (i < bytes.length && isWhitespace(bytes[i])) i++;
+  return i;
+}
+
+/**
+ * Skip a string starting at its opening quote; returns the index after the closing quote
+ */
+function skipString(bytes: Uint8Array, i: number): number {
+  let from = i + 1;
+  while (true) {
+    const quote = bytes.indexOf(QUOTE, from);
+    if (quote === -1) return -1;
+
+    // A quote preceded by an odd number of backslashes is escaped
+    let backslashes = 0;
+    while (bytes[quote - 1 - backslashes] === BACKSLASH) backslashes++;
+    if (backslashes % 2 === 0) return quote + 1;
+    from = quote + 1;
+  }
+}
+
+/**
+ * Skip any JSON value; returns the index after it, or -1 if the value is incomplete
+ */
+function skipValue(bytes: Uint8Array, i: number): number {
+  const first = bytes[i];
+  if (first === QUOTE) {
+    return skipString(bytes, i);
+  }
+
+  if (first === OPEN_BRACE || first === OPEN_BRACKET) {
+    let depth = 0;
+    while (i < bytes.length) {
+      const byte = bytes[i];
+      if (byte === QUOTE) {
+        i = skipString(bytes, i);
+        if (i === -1) return -1;
+        continue;
+      }
+      if (byte === OPEN_BRACE || byte === OPEN_BRACKET) {
+        depth++;
+      } else if (byte === CLOSE_BRACE || byte === CLOSE_BRACKET) {
+        if (--depth === 0) return i + 1;
+      }
+      i++;
+    }
+    return -1;
+  }
+
+  // Number, true, false or null
+  while (
+    i < bytes.length &&
+    bytes[i] !== COMMA &&
+    bytes[i] !== CLOSE_BRACE &&
+    bytes[i] !== CLOSE_BRACKET &&
+    !isWhitespace(bytes[i])
+  ) {
+    i++;
+  }
+  return i;
+}
+
+/**
+ * Read the top-level id and method of a JSON-RPC message without parsing its contents
+ *
+ * @returns The envelope, or null if the line is not a JSON object
+ */
+export function peekEnvelope(line: Uint8Array): Envelope | null {
+  const envelope: Envelope = { hasMethod: false };
+  let i = skipWhitespace(line, 0);
+  if (line[i] !== OPEN_BRACE) return null;
+  i = skipWhitespace(line, i + 1);
+  if (line[i] === CLOSE_BRACE) return envelope;
+
+  try {
+    while (true) {
+      if (line[i] !== QUOTE) return null;
+      const keyEnd = skipString(line, i);
+      if (keyEnd === -1) return null;
+      const key = JSON.parse(decoder.decode(line.subarray(i, keyEnd)));
+
+      i = skipWhitespace(line, keyEnd);
+      if (line[i] !== COLON) return null;
+      i = skipWhitespace(line, i + 1);
+      const valueEnd = skipValue(line, i);
+      if (valueEnd === -1 || valueEnd === i) return null;
+
+      if (key === "id") {
+        envelope.id = JSON.parse(decoder.decode(line.subarray(i, valueEnd)));
+      } else if (key === "jsonrpc") {
+        envelope.jsonrpc = JSON.parse(decoder.decode(line.subarray(i, valueEnd)));
+      } else if (key === "method") {
+        envelope.hasMethod = true;
+      }
+
+      i = skipWhitespace(line, valueEnd);
+      if (line[i] === CLOSE_BRACE) return envelope;
+      if (line[i] !== COMMA) return null;
+      i = skipWhitespace(line, i + 1);
+    }
+  } catch {
+    return null; // Malformed key or id
+  }
+}
+
+/**
+ * Check that an envelope belongs to a JSON-RPC 2.0 request, notification or response
+ */
+export function isJsonRpcEnvelope(envelope: Envelope | null): envelope is Envelope {
+  return !!envelope && envelope.jsonrpc === "2.0" && (envelope.hasMethod || "id" in envelope);
+}
+
+/**
+ * Check that a line is exactly one complete JSON-RPC message. peekEnvelope only scans the top
+ * level, so it lets through malformed values and anything after the closing brace - a stray
+ * print or a second object; JSON.parse rejects both.
+ */
+export function isJsonRpcLine(line: Uint8Array, envelope: Envelope | null): boolean {
+  return isJsonRpcEnvelope(envelope) && parseLine(line) !== null;
+}
+
+/**
+ * Parse a framed line, or null if it is not valid JSON
+ */
+export function parseLine<T>(line: Uint8Array): T | null {
+  try {
+    return JSON.parse(decoder.decode(line));
+  } catch {
+    return null;
+  }
+}
@@ -103,9 +103,104 @@
  * ```
  */
 
+import type { Logger } from "./logger.js";
+
 // Core proxy functionality
 export { MCPProxy } from "./proxy.js";
-export type { MCPProxyConfig } from "./proxy.js";
+export type {
+  CrashLoopState,
+  ExitRecord,
+  MCPProxyConfig,
+  Message,
+  MessageId,
+  ProxyHistory,
+  ProxyStatus,
+  RequestTiming,
+  RestartRecord,
+} from "./proxy.js";
+
+// Typed lifecycle events (proxy.on)
+export { ProxyEventEmitter } from "./events.js";
+export type {
+  ProxyEvent,
+  ProxyEventListener,
+  ProxyEventMap,
+  ProxyEventType,
+  RestartTrigger,
+} from "./events.js";
+
+// Leveled logging
+export {
+  LOG_FORMATS,
+  LOG_LEVELS,
+  StreamLogger,
+  createProcessLogger,
+  parseLogFormat,
+  parseLogLevel,
+  resolveLogLevel,
+} from "./logger.js";
+export type { LogFormat, LogLevel, LogRecord, Logger, StreamLoggerOptions } from "./logger.js";
+
+// Persistent log files (--log-file)
+export {
+  DEFAULT_LOG_FILE_MAX_BYTES,
+  DEFAULT_LOG_FILE_MAX_FILES,
+  LogFiles,
+  RotatingLogFile,
+  parseByteSize,
+  serverLogPath,
+} from "./log-file.js";
+export type { LogFileOptions } from "./log-file.js";
+
+// Session transcripts (--record)
+export { TranscriptFile } from "./transcript.js";
+export type {
+  TranscriptMarker,
+  TranscriptMessage,
+  TranscriptRecord,
+  TranscriptSink,
+} from "./transcript.js";
+
+// Reload diff reporting
+export { diffJson, diffLists, formatReloadDiff, isEmptyDiff } from "./diff.js";
+export type { FieldChange, ListDiff, ReloadDiff } from "./diff.js";
+
+// Control socket for external tooling
+export { ControlServer, defaultControlSocketPath, handleControlRequest } from "./control.js";
+export type { ControlCommand, ControlRequest, ControlResponse } from "./control.js";
+export { sendControlRequest } from "./control.js";
+
+// mcpmon:// resources served to MCP clients
+export {
+  MCPMON_RESOURCE_TEMPLATES,
+  ResourceError,
+  listMcpmonResources,
+  readMcpmonResource,
+  sanitizeConfig,
+} from "./resources.js";
+export type {
+  FileWatchState,
+  ResourceContents,
+  ResourceDescriptor,
+  ResourceSource,
+} from "./resources.js";
+export { formatLogEntries } from "./resources.js";
+export { MCPMON_PROMPTS, PromptError, getMcpmonPrompt } from "./prompts.js";
+export type { PromptContent, PromptDescriptor, PromptResult } from "./prompts.js";
+export {
+  CONTROL_TOOLS,
+  DEFAULT_TOOL_PREFIX,
+  callControlTool,
+  isControlTool,
+  listControlTools,
+} from "./tools.js";
+export type { ControlTool, ControlToolTarget, ToolDescriptor, ToolResult } from "./tools.js";
+export { LogBuffer } from "./log-buffer.js";
+export type { LogEntry, LogPage, LogReadOptions } from "./log-buffer.js";
+
+// Registry of running instances (mcpmon ps)
+export { InstanceRegistry, defaultRuntimeDir, formatInstances } from "./registry.js";
+export type { InstanceEntry } from "./registry.js";
 
 // Node.js implementations
 export { NodeProcessManager } from "./node/NodeProcessManager.js";
@@ -121,6 +216,7 @@ export type {
   ExitStatus,
   SpawnOptions,
   ProxyDependencies,
+  LogSink,
 } from "./interfaces.js";
 
 // Setup utilities
@@ -154,10 +250,34 @@ export async function createMCPProxy(config: {
   env?: Record<string, string>;
   killDelay?: number;
   readyDelay?: number;
+  readyProbe?: "initialize" | "ping";
+  readyPattern?: string | RegExp;
+  retryMethods?: string[];
+  drainTimeout?: number;
+  strictStdout?: boolean;
+  crashThreshold?: number;
+  crashWindow?: number;
+  crashBackoff?: number;
+  crashMaxRetries?: number;
+  healthCheckInterval?: number;
+  healthCheckTimeout?: number;
+  healthCheckFailures?: number;
+  blueGreen?: boolean;
+  buildCommands?: string[];
+  logBufferSize?: number;
+  controlTools?: boolean;
+  controlToolPrefix?: string;
+  logger?: Logger;
+  logFile?: string;
+  logFileMaxBytes?: number;
+  logFileMaxFiles?: number;
+  record?: string;
 }) {
   const { NodeProcessManager } = await import("./node/NodeProcessManager.js");
   const { NodeFileSystem } = await import("./node/NodeFileSystem.js");
   const { MCPProxy } = await import("./proxy.js");
+  const { LogFiles } = await import("./log-file.js");
+  const { TranscriptFile } = await import("./transcript.js");
 
   const procManager = new NodeProcessManager();
   const fs = new NodeFileSystem();
@@ -194,6 +314,14 @@ export async function createMCPProxy(config: {
       },
     }),
     exit: (code: number) => process.exit(code),
+    logger: config.logger,
+    logSink: config.logFile
+      ? new LogFiles(config.logFile, {
+          maxBytes: config.logFileMaxBytes,
+          maxFiles: config.logFileMaxFiles,
+        })
+      : undefined,
+    transcript: config.record ? new TranscriptFile(config.record) : undefined,
   };
 
   const proxyConfig = {
@@ -204,6 +332,23 @@ export async function createMCPProxy(config: {
     env: config.env,
     killDelay: config.killDelay || 1000,
     readyDelay: config.readyDelay || 2000,
+    readyProbe: config.readyProbe,
+    readyPattern: config.readyPattern,
+    retryMethods: config.retryMethods,
+    drainTimeout: config.drainTimeout,
+    strictStdout: config.strictStdout,
+    crashThreshold: config.crashThreshold,
+    crashWindow: config.crashWindow,
+    crashBackoff: config.crashBackoff,
+    crashMaxRetries: config.crashMaxRetries,
+    healthCheckInterval: config.healthCheckInterval,
+    healthCheckTimeout: config.healthCheckTimeout,
+    healthCheckFailures: config.healthCheckFailures,
+    blueGreen: config.blueGreen,
+    buildCommands: config.buildCommands,
+    logBufferSize: config.logBufferSize,
+    controlTools: config.controlTools,
+    controlToolPrefix: config.controlToolPrefix,
   };
 
   return new MCPProxy(dependencies, proxyConfig);
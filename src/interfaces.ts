@@ -6,6 +6,9 @@
  * injection and cross-platform compatibility between Deno and Node.js.
  */
 
+import type { LogLevel, Logger } from "./logger.js";
+import type { TranscriptSink } from "./transcript.js";
+
 /**
  * Options for spawning a managed process
  */
@@ -251,6 +254,23 @@ export interface ProxyDependencies {
   stderr: WritableStream<Uint8Array>;
   /** Process exit function for graceful termination */
   exit: (code: number) => void;
+  /** Destination of the proxy's own log messages (default: info and above, as text, to stderr) */
+  logger?: Logger;
+  /** Persistent copy of the proxy's log and of the server's stderr, e.g. --log-file */
+  logSink?: LogSink;
+  /** Session transcript of every message crossing the proxy, e.g. --record */
+  transcript?: TranscriptSink;
+}
+
+/**
+ * Persistent destination for logs, with the proxy's own messages and the server's stderr kept
+ * apart as two channels. Receives every proxy message, whatever the logger's level.
+ */
+export interface LogSink {
+  /** One proxy log message (may span several lines) */
+  proxy(level: LogLevel, text: string): void;
+  /** One line of stderr from the server process with this PID */
+  server(text: string, pid?: number): void;
 }
 
 /**
@@ -0,0 +1,116 @@
+/**
+ * Interactive keyboard commands
+ *
+ * Stdin carries JSON-RPC, so keystrokes are read from the controlling terminal (/dev/tty)
+ * instead. This module maps keys to proxy actions; opening the terminal is up to the caller.
+ */
+
+import { formatReloadDiff } from "./diff.js";
+import type { MCPProxy, ProxyStatus } from "./proxy.js";
+
+/** Clear the screen and scrollback, then move the cursor home */
+const CLEAR_SCREEN = "\x1b[2J\x1b[3J\x1b[H";
+/** Ctrl+C arrives as a key in raw mode instead of raising SIGINT */
+const CTRL_C = "\x03";
+
+export const KEYBOARD_HELP =
+  "⌨️  Keys: r restart · l last diff · s status · c clear · q quit · h help";
+
+/**
+ * Format a millisecond duration as e.g. "2h 5m", "3m 12s" or "41s"
+ */
+function formatUptime(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+/**
+ * Format a proxy status snapshot for the terminal
+ */
+export function formatStatus(status: ProxyStatus): string {
+  let server: string;
+  if (status.pid === null) {
+    server = status.restarting ? "restarting" : "not running";
+  } else {
+    const uptime = status.startedAt ? `, up ${formatUptime(Date.now() - status.startedAt)}` : "";
+    const state = status.restarting ? "restarting" : "running";
+    server = `${state}, PID ${status.pid}, generation ${status.generation}${uptime}`;
+  }
+
+  const { crashLoop } = status;
+  const crash =
+    crashLoop.state === "healthy"
+      ? "healthy"
+      : `${crashLoop.state} (attempt ${crashLoop.attempt}, ${crashLoop.recentExits} recent exits)`;
+
+  const lines = [
+    `📊 Server: ${server}`,
+    `   Crash loop: ${crash}`,
+    `   In-flight requests: ${status.inflightRequests}, buffered messages: ${status.bufferedMessages}`,
+  ];
+  if (status.watchPaused) {
+    lines.push("   File watching: paused");
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Dispatches single-key commands to a proxy
+ */
+export class KeyboardControls {
+  /**
+   * @param proxy - The proxy to control
+   * @param output - Writes text for the user (newline not included)
+   * @param quit - Shuts everything down; called for q and Ctrl+C
+   */
+  constructor(
+    private proxy: Pick<MCPProxy, "forceRestart" | "getLastDiff" | "getStatus">,
+    private output: (text: string) => void,
+    private quit: () => void | Promise<void>
+  ) {}
+
+  /**
+   * Handle a chunk of terminal input; every character is a separate command
+   */
+  async handleInput(input: string) {
+    for (const key of input) {
+      await this.handleKey(key);
+    }
+  }
+
+  /**
+   * Run the command bound to a key; unbound keys are ignored
+   */
+  async handleKey(key: string) {
+    switch (key) {
+      case "r":
+        // Not awaited, so status and diff keys keep working while the restart runs
+        this.proxy.forceRestart("keyboard").catch((error) => {
+          this.output(`❌ Restart failed: ${error}`);
+        });
+        break;
+      case "l": {
+        const diff = this.proxy.getLastDiff();
+        this.output(diff ? formatReloadDiff(diff) : "📋 No reload has happened yet");
+        break;
+      }
+      case "s":
+        this.output(formatStatus(this.proxy.getStatus()));
+        break;
+      case "c":
+        this.output(CLEAR_SCREEN + KEYBOARD_HELP);
+        break;
+      case "h":
+      case "?":
+        this.output(KEYBOARD_HELP);
+        break;
+      case "q":
+      case CTRL_C:
+        await this.quit();
+        break;
+    }
+  }
+}
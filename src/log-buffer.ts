@@ -0,0 +1,102 @@
+/**
+ * Bounded in-memory log history
+ *
+ * Keeps the most recent log lines up to a byte budget, dropping the oldest first. Every line
+ * gets an increasing sequence number, which doubles as the pagination cursor: a reader that
+ * remembers the cursor of its last page gets exactly the lines appended since.
+ */
+
+export interface LogEntry {
+  /** Sequence number, unique and increasing within a buffer */
+  seq: number;
+  /** When the line was recorded (ms since epoch) */
+  time: number;
+  text: string;
+  /** Server process the line came from, for server logs */
+  pid?: number;
+}
+
+export interface LogPage {
+  entries: LogEntry[];
+  /** Cursor for the next read: the sequence number after the last entry returned */
+  nextCursor: number;
+  /** Whether more matching entries exist at or after nextCursor */
+  hasMore: boolean;
+}
+
+export interface LogReadOptions {
+  /** Return entries from this sequence number on; without it, the most recent entries */
+  cursor?: number;
+  /** Maximum number of entries (default: 200) */
+  limit?: number;
+  /** Only count and return matching entries */
+  filter?: (entry: LogEntry) => boolean;
+}
+
+const encoder = new TextEncoder();
+
+export class LogBuffer {
+  private entries: LogEntry[] = [];
+  // UTF-8 size of each entry's text, parallel to entries
+  private sizes: number[] = [];
+  private bytes = 0;
+  private nextSeq = 1;
+
+  /**
+   * @param maxBytes - Total UTF-8 size of the text kept before the oldest lines are dropped
+   */
+  constructor(private maxBytes: number) {}
+
+  append(text: string, pid?: number) {
+    const entry: LogEntry = { seq: this.nextSeq++, time: Date.now(), text };
+    if (pid !== undefined) entry.pid = pid;
+    const size = encoder.encode(text).length;
+    this.entries.push(entry);
+    this.sizes.push(size);
+    this.bytes += size;
+
+    // Always keep the newest line, even if it alone exceeds the budget
+    let drop = 0;
+    while (this.bytes > this.maxBytes && drop < this.entries.length - 1) {
+      this.bytes -= this.sizes[drop];
+      drop++;
+    }
+    if (drop > 0) {
+      this.entries.splice(0, drop);
+      this.sizes.splice(0, drop);
+    }
+  }
+
+  read({ cursor, limit = 200, filter = () => true }: LogReadOptions = {}): LogPage {
+    const matching = this.entries.filter(filter);
+    let entries: LogEntry[];
+    let rest: LogEntry[];
+    if (cursor === undefined) {
+      entries = matching.slice(-limit);
+      rest = [];
+    } else {
+      // Lines dropped since the cursor was handed out are skipped silently
+      const from = matching.filter((entry) => entry.seq >= cursor);
+      entries = from.slice(0, limit);
+      rest = from.slice(limit);
+    }
+
+    const last = entries[entries.length - 1];
+    return {
+      entries,
+      nextCursor: last ? last.seq + 1 : (cursor ?? this.nextSeq),
+      hasMore: rest.length > 0,
+    };
+  }
+
+  /**
+   * The distinct server PIDs that still have lines in the buffer, oldest first
+   */
+  pids(): number[] {
+    const pids: number[] = [];
+    for (const entry of this.entries) {
+      if (entry.pid !== undefined && !pids.includes(entry.pid)) pids.push(entry.pid);
+    }
+    return pids;
+  }
+}
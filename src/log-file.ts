@@ -0,0 +1,162 @@
+/**
+ * Persistent log files with size-based rotation
+ *
+ * MCP clients launch mcpmon with stderr piped into their own logs, which are hard to find and
+ * mix every server together. With --log-file, mcpmon also writes its own log and the server's
+ * stderr to files of its own, every line prefixed with a timestamp and the PID that wrote it.
+ */
+
+import { closeSync, existsSync, openSync, renameSync, statSync, unlinkSync, writeSync } from "fs";
+import { basename, dirname, extname, join } from "path";
+import type { LogSink } from "./interfaces.js";
+import type { LogLevel } from "./logger.js";
+
+/** Rotate a log file once it would grow past this many bytes */
+export const DEFAULT_LOG_FILE_MAX_BYTES = 10 * 1024 * 1024;
+
+/** Rotated files kept next to each log file (mcpmon.log.1 ... mcpmon.log.5) */
+export const DEFAULT_LOG_FILE_MAX_FILES = 5;
+
+export interface LogFileOptions {
+  /** Rotate before a write would take the file past this size (default: 10 MiB) */
+  maxBytes?: number;
+  /** Rotated files to keep; 0 truncates the file instead (default: 5) */
+  maxFiles?: number;
+  /** Called once when the file cannot be written; later writes are dropped */
+  onError?: (error: unknown, path: string) => void;
+}
+
+/**
+ * An append-only file that is rotated to path.1, path.2, ... when it reaches its size limit.
+ * Writes are synchronous so nothing is lost when mcpmon exits abruptly.
+ */
+export class RotatingLogFile {
+  private fd: number | null = null;
+  private size = 0;
+  private failed = false;
+  private maxBytes: number;
+  private maxFiles: number;
+
+  constructor(
+    readonly path: string,
+    private options: LogFileOptions = {}
+  ) {
+    this.maxBytes = options.maxBytes ?? DEFAULT_LOG_FILE_MAX_BYTES;
+    this.maxFiles = options.maxFiles ?? DEFAULT_LOG_FILE_MAX_FILES;
+  }
+
+  /**
+   * Append one line (a newline is added)
+   */
+  writeLine(line: string) {
+    if (this.failed) return;
+
+    const data = Buffer.from(line + "\n");
+    try {
+      if (this.fd === null) this.open();
+      if (this.size > 0 && this.size + data.length > this.maxBytes) this.rotate();
+      writeSync(this.fd!, data);
+      this.size += data.length;
+    } catch (error) {
+      this.failed = true;
+      this.close();
+      this.options.onError?.(error, this.path);
+    }
+  }
+
+  close() {
+    if (this.fd === null) return;
+    try {
+      closeSync(this.fd);
+    } catch {
+      // Already closed
+    }
+    this.fd = null;
+  }
+
+  private open() {
+    this.fd = openSync(this.path, "a");
+    this.size = statSync(this.path).size;
+  }
+
+  private rotate() {
+    this.close();
+    if (this.maxFiles > 0) {
+      const oldest = `${this.path}.${this.maxFiles}`;
+      if (existsSync(oldest)) unlinkSync(oldest);
+      for (let i = this.maxFiles - 1; i >= 1; i--) {
+        const from = `${this.path}.${i}`;
+        if (existsSync(from)) renameSync(from, `${this.path}.${i + 1}`);
+      }
+      renameSync(this.path, `${this.path}.1`);
+    } else {
+      unlinkSync(this.path);
+    }
+    this.open();
+  }
+}
+
+/**
+ * Where the server's stderr goes next to a --log-file: mcpmon.log -> mcpmon.server.log
+ */
+export function serverLogPath(path: string): string {
+  const ext = extname(path);
+  return join(dirname(path), `${basename(path, ext)}.server${ext || ".log"}`);
+}
+
+/**
+ * Parse a --log-file-size value: bytes, or a number with a K, M or G suffix (binary units)
+ *
+ * @throws Error if the value is not a positive size
+ */
+export function parseByteSize(value: string): number {
+  const match = /^(\d+(?:\.\d+)?)\s*([kmg]?)i?b?$/i.exec(value.trim());
+  const units: Record<string, number> = { "": 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3 };
+  const bytes = match ? Math.floor(Number(match[1]) * units[match[2].toLowerCase()]) : 0;
+  if (!(bytes > 0)) {
+    throw new Error(`Invalid size "${value}" (expected bytes or a number with K, M or G)`);
+  }
+  return bytes;
+}
+
+/**
+ * The two log file channels of --log-file: the proxy's own log at path and the server's stderr
+ * at serverLogPath(path), each rotated on its own.
+ *
+ * Proxy lines carry mcpmon's PID and the level; server lines the PID of the server that wrote them:
+ *   2026-01-01T12:00:00.000Z [4242] info: 🚀 Starting MCP server...
+ *   2026-01-01T12:00:00.120Z [4250] listening on stdio
+ */
+export class LogFiles implements LogSink {
+  readonly proxyFile: RotatingLogFile;
+  readonly serverFile: RotatingLogFile;
+
+  constructor(
+    path: string,
+    options: LogFileOptions = {},
+    private pid: number = process.pid
+  ) {
+    this.proxyFile = new RotatingLogFile(path, options);
+    this.serverFile = new RotatingLogFile(serverLogPath(path), options);
+  }
+
+  proxy(level: LogLevel, text: string) {
+    this.write(this.proxyFile, `[${this.pid}] ${level}:`, text);
+  }
+
+  server(text: string, pid?: number) {
+    this.write(this.serverFile, `[${pid ?? "-"}]`, text);
+  }
+
+  close() {
+    this.proxyFile.close();
+    this.serverFile.close();
+  }
+
+  private write(file: RotatingLogFile, prefix: string, text: string) {
+    const time = new Date().toISOString();
+    for (const line of text.split("\n")) {
+      file.writeLine(`${time} ${prefix} ${line}`);
+    }
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Leveled logging for the proxy and the CLI
+ *
+ * Logger is the shape the proxy logs through; console satisfies it, and StreamLogger adds level
+ * filtering and a JSON format that writes one structured record per line for log collectors.
+ */
+
+import { format } from "util";
+
+/** Levels from most to least severe */
+export const LOG_LEVELS = ["error", "warn", "info", "debug", "trace"] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export const LOG_FORMATS = ["text", "json"] as const;
+
+export type LogFormat = (typeof LOG_FORMATS)[number];
+
+/**
+ * Destination for log messages. Arguments are formatted like console.error's.
+ */
+export interface Logger {
+  error(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  info(...args: unknown[]): void;
+  debug(...args: unknown[]): void;
+  trace(...args: unknown[]): void;
+}
+
+export interface StreamLoggerOptions {
+  /** Least severe level written (default: "info") */
+  level?: LogLevel;
+  /** "text" writes messages as they are, "json" one record per line (default: "text") */
+  format?: LogFormat;
+  /** Fields added to every JSON record, e.g. the mcpmon PID */
+  fields?: Record<string, unknown>;
+  /** Write one line (without the trailing newline) */
+  write: (line: string, level: LogLevel) => void;
+}
+
+/** A JSON log record */
+export interface LogRecord {
+  time: string;
+  level: LogLevel;
+  msg: string;
+  [field: string]: unknown;
+}
+
+// Emoji (and the space after them) that start most messages - noise in a structured record
+const DECORATION = /^(?:[\p{Extended_Pictographic}\uFE0F\u200D]|\s)+/u;
+
+export class StreamLogger implements Logger {
+  readonly level: LogLevel;
+  readonly format: LogFormat;
+
+  constructor(private options: StreamLoggerOptions) {
+    this.level = options.level ?? "info";
+    this.format = options.format ?? "text";
+  }
+
+  /**
+   * Whether messages at this level are written
+   */
+  isEnabled(level: LogLevel): boolean {
+    return LOG_LEVELS.indexOf(level) <= LOG_LEVELS.indexOf(this.level);
+  }
+
+  error(...args: unknown[]) {
+    this.log("error", args);
+  }
+
+  warn(...args: unknown[]) {
+    this.log("warn", args);
+  }
+
+  info(...args: unknown[]) {
+    this.log("info", args);
+  }
+
+  debug(...args: unknown[]) {
+    this.log("debug", args);
+  }
+
+  trace(...args: unknown[]) {
+    this.log("trace", args);
+  }
+
+  private log(level: LogLevel, args: unknown[]) {
+    if (!this.isEnabled(level)) return;
+
+    const text = format(...args);
+    if (this.format === "text") {
+      this.options.write(text, level);
+      return;
+    }
+
+    const msg = text.trim().replace(DECORATION, "");
+    if (!msg) return;
+    const record: LogRecord = {
+      time: new Date().toISOString(),
+      level,
+      msg,
+      ...this.options.fields,
+    };
+    this.options.write(JSON.stringify(record), level);
+  }
+}
+
+/**
+ * Parse a --log-level value
+ *
+ * @throws Error naming the valid levels if the value is not one of them
+ */
+export function parseLogLevel(value: string): LogLevel {
+  const level = value.trim().toLowerCase();
+  if (!(LOG_LEVELS as readonly string[]).includes(level)) {
+    throw new Error(`Invalid log level "${value}" (expected ${LOG_LEVELS.join(", ")})`);
+  }
+  return level as LogLevel;
+}
+
+/**
+ * Parse a --log-format value
+ *
+ * @throws Error naming the valid formats if the value is not one of them
+ */
+export function parseLogFormat(value: string): LogFormat {
+  const logFormat = value.trim().toLowerCase();
+  if (!(LOG_FORMATS as readonly string[]).includes(logFormat)) {
+    throw new Error(`Invalid log format "${value}" (expected ${LOG_FORMATS.join(" or ")})`);
+  }
+  return logFormat as LogFormat;
+}
+
+/**
+ * Pick the log level from the command line flags: an explicit level wins over --quiet (errors
+ * only), which wins over --verbose (debug)
+ */
+export function resolveLogLevel(options: {
+  logLevel?: string;
+  quiet?: boolean;
+  verbose?: boolean;
+}): LogLevel {
+  if (options.logLevel) return parseLogLevel(options.logLevel);
+  if (options.quiet) return "error";
+  if (options.verbose) return "debug";
+  return "info";
+}
+
+/**
+ * A StreamLogger on this process's own streams. Everything goes to stderr, unless infoToStdout
+ * sends info and below to stdout - for commands whose report is their output, such as setup.
+ */
+export function createProcessLogger(
+  options: Omit<StreamLoggerOptions, "write"> & { infoToStdout?: boolean } = {}
+): StreamLogger {
+  const { infoToStdout, ...loggerOptions } = options;
+  return new StreamLogger({
+    ...loggerOptions,
+    write: (line, level) => {
+      const toStdout = infoToStdout && level !== "error" && level !== "warn";
+      (toStdout ? process.stdout : process.stderr).write(line + "\n");
+    },
+  });
+}
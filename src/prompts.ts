@@ -0,0 +1,411 @@
+/**
+ * Diagnostic MCP prompts
+ *
+ * The proxy merges these prompts into the server's prompts/list and answers prompts/get for
+ * them itself. Each prompt states what mcpmon observed and embeds the relevant logs, restart
+ * history and file events as mcpmon:// resources, so the assistant can diagnose a broken
+ * server without anyone copying logs into the conversation.
+ */
+
+import type { LogEntry } from "./log-buffer.js";
+import type { ExitRecord, RestartRecord } from "./proxy.js";
+import { formatLogEntries, readMcpmonResource, sanitizeConfig } from "./resources.js";
+import type { ResourceSource } from "./resources.js";
+
+const INVALID_PARAMS = -32602;
+
+/** Log lines embedded per server process */
+const EMBEDDED_LOG_LINES = 200;
+
+/** Server processes whose logs are embedded, most recent first */
+const EMBEDDED_SERVER_LOGS = 5;
+
+export interface PromptDescriptor {
+  name: string;
+  description: string;
+  arguments: Array<{ name: string; description: string; required: boolean }>;
+}
+
+export type PromptContent =
+  | { type: "text"; text: string }
+  | { type: "resource"; resource: { uri: string; mimeType: string; text: string } };
+
+export interface PromptResult {
+  description: string;
+  messages: Array<{ role: "user"; content: PromptContent }>;
+}
+
+/**
+ * A prompts/get with arguments that cannot be used, carrying the JSON-RPC error code
+ */
+export class PromptError extends Error {
+  constructor(
+    message: string,
+    readonly code: number
+  ) {
+    super(message);
+    this.name = "PromptError";
+  }
+}
+
+export const MCPMON_PROMPTS: PromptDescriptor[] = [
+  {
+    name: "debug_startup_failure",
+    description: "Analyze why the MCP server behind mcpmon won't start or stay up",
+    arguments: [
+      {
+        name: "include_env",
+        description:
+          "Include the names of the server's environment variables, never their values (true/false)",
+        required: false,
+      },
+      {
+        name: "time_range",
+        description: 'How far back to look, e.g. "5m" or "1h" (default: 15m)',
+        required: false,
+      },
+    ],
+  },
+  {
+    name: "analyze_restart_loop",
+    description: "Diagnose why the MCP server keeps restarting",
+    arguments: [
+      {
+        name: "threshold",
+        description: "Restarts within time_window that count as a loop (default: 3)",
+        required: false,
+      },
+      {
+        name: "time_window",
+        description: 'Window to analyze, e.g. "10m" (default: 10m)',
+        required: false,
+      },
+    ],
+  },
+  {
+    name: "check_file_watch",
+    description: "Verify which files mcpmon watches and which changes triggered restarts",
+    arguments: [],
+  },
+  {
+    name: "performance_analysis",
+    description: "Analyze restart times and request latency",
+    arguments: [
+      {
+        name: "time_period",
+        description: 'Period to analyze, e.g. "30m" or "2h" (default: 1h)',
+        required: false,
+      },
+      {
+        name: "include_metrics",
+        description: "Embed the raw mcpmon://stats counters (true/false, default: true)",
+        required: false,
+      },
+    ],
+  },
+];
+
+export function isMcpmonPrompt(name: unknown): name is string {
+  return MCPMON_PROMPTS.some((prompt) => prompt.name === name);
+}
+
+/**
+ * Answer a prompts/get for one of the mcpmon prompts
+ *
+ * @throws PromptError for malformed arguments
+ */
+export function getMcpmonPrompt(
+  name: string,
+  args: Record<string, string> = {},
+  source: ResourceSource
+): PromptResult {
+  switch (name) {
+    case "debug_startup_failure":
+      return debugStartupFailure(source, args);
+    case "analyze_restart_loop":
+      return analyzeRestartLoop(source, args);
+    case "check_file_watch":
+      return checkFileWatch(source);
+    case "performance_analysis":
+      return performanceAnalysis(source, args);
+    default:
+      throw new PromptError(`Unknown mcpmon prompt: ${name}`, INVALID_PARAMS);
+  }
+}
+
+function debugStartupFailure(source: ResourceSource, args: Record<string, string>): PromptResult {
+  const range = parseDuration(args, "time_range", "15m");
+  const includeEnv = parseBoolean(args, "include_env", false);
+  const since = Date.now() - range.ms;
+  const status = source.getStatus();
+  const exits = source.getHistory().exits.filter((exit) => exit.time >= since);
+  const config = source.getConfig();
+
+  const text = [
+    `The MCP server run by mcpmon (\`${[config.command, ...config.commandArgs].join(" ")}\`) ` +
+      `is failing to start or stay up. Using the logs and state below, find the most likely ` +
+      `cause and suggest a fix.`,
+    "",
+    describeServer(source),
+    `Unexpected exits in the last ${range.text}: ${exits.length}`,
+    ...exits.map(formatExit),
+    status.crashLoop.state === "broken"
+      ? "mcpmon has given up restarting it until a watched file changes."
+      : "",
+  ];
+
+  // Names only: the environment is usually all of the user's, and this goes into the conversation
+  const sanitized = sanitizeConfig(config);
+  if (!includeEnv) delete sanitized.envNames;
+
+  return {
+    description: `Why the server won't start (last ${range.text})`,
+    messages: [
+      textMessage(text),
+      ...serverLogs(source, since),
+      logMessage("mcpmon://logs/proxy", source.proxyLog.read(recentLines(since)).entries),
+      jsonMessage("mcpmon://config", sanitized),
+      resourceMessage(source, "mcpmon://stats"),
+    ],
+  };
+}
+
+function analyzeRestartLoop(source: ResourceSource, args: Record<string, string>): PromptResult {
+  const threshold = parseCount(args, "threshold", 3);
+  const window = parseDuration(args, "time_window", "10m");
+  const since = Date.now() - window.ms;
+  const history = source.getHistory();
+  const exits = history.exits.filter((exit) => exit.time >= since);
+  const restarts = history.restarts.filter((restart) => restart.time >= since);
+  const triggers = source
+    .getFileWatch()
+    .recentEvents.filter((event) => event.time >= since && event.action === "restart");
+  const total = exits.length + restarts.length;
+
+  const text = [
+    `In the last ${window.text} the MCP server behind mcpmon went down ${total} times: ` +
+      `${exits.length} unexpected exits and ${restarts.length} restarts after file changes or ` +
+      `restart requests. That is ${total >= threshold ? "at or above" : "below"} the ` +
+      `threshold of ${threshold}.`,
+    "",
+    describeServer(source),
+    "",
+    `Unexpected exits (${exits.length}):`,
+    ...exits.map(formatExit),
+    "",
+    `Restarts (${restarts.length}):`,
+    ...restarts.map(formatRestart),
+    "",
+    `File changes that triggered a restart: ${triggers.length}`,
+    ...triggers.map((event) => `- ${iso(event.time)} ${event.type} ${event.path}`),
+    "",
+    "Find the pattern behind these restarts - for example a crash during startup, a watcher " +
+      "reacting to files the server or its build writes, or a hung server killed by health " +
+      "checks - and suggest how to break the loop.",
+  ];
+
+  return {
+    description: `Restart loop analysis (last ${window.text}, threshold ${threshold})`,
+    messages: [
+      textMessage(text),
+      resourceMessage(source, "mcpmon://stats"),
+      resourceMessage(source, "mcpmon://file-watch"),
+      ...serverLogs(source, since),
+      logMessage("mcpmon://logs/proxy", source.proxyLog.read(recentLines(since)).entries),
+    ],
+  };
+}
+
+function checkFileWatch(source: ResourceSource): PromptResult {
+  const watch = source.getFileWatch();
+  const text = [
+    watch.targets.length
+      ? `mcpmon watches: ${watch.targets.join(", ")}`
+      : "mcpmon is not watching any files.",
+    `Watching is ${watch.paused ? "paused" : "active"}.`,
+    `Last restart trigger: ${watch.lastTriggerAt ? iso(watch.lastTriggerAt) : "none yet"}`,
+    "",
+    `Recent file events (${watch.recentEvents.length}):`,
+    ...watch.recentEvents.map(
+      (event) => `- ${iso(event.time)} ${event.type} ${event.path} -> ${event.action}`
+    ),
+    "",
+    "Check that the right files trigger restarts: are edits to the server's source missed, " +
+      "and do generated files, logs or build output cause needless restarts? Suggest a better " +
+      "set of watch targets if needed.",
+  ];
+
+  return {
+    description: "File watching and restart triggers",
+    messages: [
+      textMessage(text),
+      resourceMessage(source, "mcpmon://file-watch"),
+      resourceMessage(source, "mcpmon://config"),
+    ],
+  };
+}
+
+function performanceAnalysis(source: ResourceSource, args: Record<string, string>): PromptResult {
+  const period = parseDuration(args, "time_period", "1h");
+  const includeMetrics = parseBoolean(args, "include_metrics", true);
+  const since = Date.now() - period.ms;
+  const history = source.getHistory();
+  const restarts = history.restarts.filter((restart) => restart.time >= since);
+  const completed = restarts.filter((restart) => restart.outcome === "completed");
+  const requests = history.requests.filter((request) => request.time >= since);
+
+  const byMethod = new Map<string, number[]>();
+  for (const request of requests) {
+    byMethod.set(request.method, [...(byMethod.get(request.method) ?? []), request.durationMs]);
+  }
+
+  const text = [
+    `Performance of the MCP server behind mcpmon over the last ${period.text}.`,
+    "",
+    `Restarts: ${completed.length} completed, ` +
+      `${restarts.length - completed.length} aborted or failed`,
+    completed.length
+      ? `Restart time: ${formatDurations(completed.map((restart) => restart.durationMs))}`
+      : "",
+    "",
+    `Requests answered: ${requests.length}`,
+    ...[...byMethod].map(
+      ([method, durations]) => `- ${method}: ${durations.length}x, ${formatDurations(durations)}`
+    ),
+    "",
+    "Point out slow restarts and slow methods, explain likely causes (startup work, build " +
+      "commands, readiness waits, slow tool handlers) and suggest improvements.",
+  ];
+
+  return {
+    description: `Restart and request performance (last ${period.text})`,
+    messages: [
+      textMessage(text),
+      ...(includeMetrics ? [resourceMessage(source, "mcpmon://stats")] : []),
+    ],
+  };
+}
+
+function describeServer(source: ResourceSource): string {
+  const status = source.getStatus();
+  const server = status.pid
+    ? `Server PID ${status.pid} is ${status.running ? "running" : "restarting"}`
+    : "No server is running";
+  const loop = status.crashLoop;
+  return loop.state === "healthy"
+    ? `${server}.`
+    : `${server}; crash-loop state: ${loop.state} (${loop.recentExits} recent exits, ` +
+        `backoff attempt ${loop.attempt}).`;
+}
+
+/**
+ * Embedded logs of the most recent server processes, restricted to lines since a time
+ */
+function serverLogs(source: ResourceSource, since: number) {
+  return source.serverLog
+    .pids()
+    .slice(-EMBEDDED_SERVER_LOGS)
+    .reverse()
+    .map((pid) => ({
+      pid,
+      entries: source.serverLog.read({
+        ...recentLines(since),
+        filter: (entry) => entry.pid === pid && entry.time >= since,
+      }).entries,
+    }))
+    .filter(({ entries }) => entries.length > 0)
+    .map(({ pid, entries }) => logMessage(`mcpmon://logs/server/${pid}`, entries));
+}
+
+function recentLines(since: number) {
+  return { limit: EMBEDDED_LOG_LINES, filter: (entry: LogEntry) => entry.time >= since };
+}
+
+function textMessage(lines: string[]) {
+  const text = lines
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+  return { role: "user" as const, content: { type: "text" as const, text } };
+}
+
+function embed(uri: string, mimeType: string, text: string) {
+  return {
+    role: "user" as const,
+    content: { type: "resource" as const, resource: { uri, mimeType, text } },
+  };
+}
+
+function logMessage(uri: string, entries: LogEntry[]) {
+  return embed(uri, "text/plain", formatLogEntries(entries) || "(no lines in this period)");
+}
+
+function jsonMessage(uri: string, value: unknown) {
+  return embed(uri, "application/json", JSON.stringify(value, null, 2));
+}
+
+function resourceMessage(source: ResourceSource, uri: string) {
+  const [content] = readMcpmonResource(uri, source).contents;
+  return embed(content.uri, content.mimeType, content.text);
+}
+
+function formatExit(exit: ExitRecord): string {
+  return `- ${iso(exit.time)} PID ${exit.pid ?? "?"} ${exit.reason} after ${seconds(exit.uptimeMs)}`;
+}
+
+function formatRestart(restart: RestartRecord): string {
+  return `- ${iso(restart.time)} ${restart.reason}: ${restart.outcome} in ${restart.durationMs}ms`;
+}
+
+/**
+ * Summarize durations as average, 95th percentile and maximum
+ */
+function formatDurations(durations: number[]): string {
+  const sorted = [...durations].sort((a, b) => a - b);
+  const average = Math.round(sorted.reduce((sum, ms) => sum + ms, 0) / sorted.length);
+  const p95 = sorted[Math.min(sorted.length - 1, Math.ceil(sorted.length * 0.95) - 1)];
+  return `avg ${average}ms, p95 ${p95}ms, max ${sorted[sorted.length - 1]}ms`;
+}
+
+function iso(time: number): string {
+  return new Date(time).toISOString();
+}
+
+function seconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+const DURATION_UNITS: Record<string, number> = { s: 1000, m: 60000, h: 3600000, d: 86400000 };
+
+/**
+ * Parse a duration argument such as "30s", "5m", "1h" or "2d"
+ */
+function parseDuration(
+  args: Record<string, string>,
+  name: string,
+  fallback: string
+): { ms: number; text: string } {
+  const text = (args[name] ?? fallback).trim();
+  const match = text.match(/^(\d+)\s*([smhd])$/);
+  if (!match) {
+    throw new PromptError(`Invalid ${name} "${text}", expected e.g. "5m" or "1h"`, INVALID_PARAMS);
+  }
+  return { ms: Number(match[1]) * DURATION_UNITS[match[2]], text };
+}
+
+function parseBoolean(args: Record<string, string>, name: string, fallback: boolean): boolean {
+  const value = args[name];
+  if (value === undefined || value === "") return fallback;
+  if (/^(true|yes|1)$/i.test(value)) return true;
+  if (/^(false|no|0)$/i.test(value)) return false;
+  throw new PromptError(`Invalid ${name} "${value}", expected true or false`, INVALID_PARAMS);
+}
+
+function parseCount(args: Record<string, string>, name: string, fallback: number): number {
+  const value = args[name];
+  if (value === undefined || value === "") return fallback;
+  if (!/^\d+$/.test(value)) {
+    throw new PromptError(`Invalid ${name} "${value}", expected a number`, INVALID_PARAMS);
+  }
+  return Number(value);
+}
@@ -6,16 +6,45 @@
  * compatibility between Deno and Node.js environments.
  */
 
+import { format } from "util";
 import type {
   ChangeSource,
   ChangeEvent,
   ChangeEventType,
+  ExitStatus,
   FileSystem,
   FileEvent,
+  LogSink,
   ManagedProcess,
   ProcessManager,
   ProxyDependencies,
 } from "./interfaces.js";
+import { diffLists, formatReloadDiff, isEmptyDiff } from "./diff.js";
+import type { ListDiff, ReloadDiff } from "./diff.js";
+import { LineFramer, isJsonRpcLine, parseLine, peekEnvelope } from "./framing.js";
+import type { Envelope } from "./framing.js";
+import { WriteQueue } from "./write-queue.js";
+import { LogBuffer } from "./log-buffer.js";
+import {
+  MCPMON_RESOURCE_TEMPLATES,
+  ResourceError,
+  isMcpmonUri,
+  listMcpmonResources,
+  readMcpmonResource,
+} from "./resources.js";
+import type { ResourceSource } from "./resources.js";
+import { MCPMON_PROMPTS, PromptError, getMcpmonPrompt, isMcpmonPrompt } from "./prompts.js";
+import { DEFAULT_TOOL_PREFIX, callControlTool, isControlTool, listControlTools } from "./tools.js";
+import { ProxyEventEmitter } from "./events.js";
+import { StreamLogger } from "./logger.js";
+import type { TranscriptMarker, TranscriptSink } from "./transcript.js";
+import type { LogLevel, Logger } from "./logger.js";
+import type {
+  ProxyEventListener,
+  ProxyEventMap,
+  ProxyEventType,
+  RestartTrigger,
+} from "./events.js";
 
 // Simple debounce implementation for Node.js
 type DebouncedFunction<T extends (...args: any[]) => any> = T & {
@@ -57,9 +86,13 @@ function debounce<T extends (...args: any[]) => any>(fn: T, delay: number): Debo
   return debouncedFn;
 }
 
-interface Message {
+/** JSON-RPC request id - clients may use numbers or strings */
+export type MessageId = number | string;
+
+/** A JSON-RPC message as exchanged with the client and the server */
+export interface Message {
   jsonrpc: string;
-  id?: number;
+  id?: MessageId;
   method?: string;
   params?: unknown;
   result?: unknown;
@@ -70,6 +103,206 @@ interface Message {
   };
 }
 
+/**
+ * Prefix for ids of requests the proxy sends on its own behalf (initialize, tools/list, ...).
+ * Keeping them in a separate string namespace means they can never collide with the ids the
+ * client uses, and lets the proxy recognise (and swallow) late responses to them.
+ */
+const INTERNAL_ID_PREFIX = "mcpmon-internal-";
+
+function isInternalId(id: unknown): id is string {
+  return typeof id === "string" && id.startsWith(INTERNAL_ID_PREFIX);
+}
+
+/** Error data marking responses synthesized by the proxy because the server never answered */
+const NO_RESPONSE = "mcpmon:no-response";
+
+function noResponse(id: MessageId, message: string): Message {
+  return { jsonrpc: "2.0", id, error: { code: -32603, message, data: NO_RESPONSE } };
+}
+
+/** JSON-RPC error code for client requests the server cannot answer because it went away */
+const SERVER_UNAVAILABLE = -32000;
+
+/** JSON-RPC error code of a server that does not implement a method */
+const METHOD_NOT_FOUND = -32601;
+
+/**
+ * List endpoints refreshed after every restart: the result field holding the items, the
+ * capability that gates them and the notification sent to the client when they change
+ */
+const LIST_KINDS = [
+  {
+    method: "tools/list",
+    field: "tools",
+    capability: "tools",
+    notification: "notifications/tools/list_changed",
+  },
+  {
+    method: "resources/list",
+    field: "resources",
+    capability: "resources",
+    notification: "notifications/resources/list_changed",
+  },
+  {
+    method: "resources/templates/list",
+    field: "resourceTemplates",
+    capability: "resources",
+    notification: "notifications/resources/list_changed",
+  },
+  {
+    method: "prompts/list",
+    field: "prompts",
+    capability: "prompts",
+    notification: "notifications/prompts/list_changed",
+  },
+] as const;
+
+type ListKind = (typeof LIST_KINDS)[number];
+
+/** Maximum pages followed via nextCursor when fetching a list */
+const MAX_LIST_PAGES = 50;
+
+/** Upper bound for the exponential backoff between crash-loop restarts */
+const MAX_CRASH_BACKOFF = 30000;
+
+/** Default size in bytes of each log buffer (proxy log, server log) */
+const DEFAULT_LOG_BUFFER_SIZE = 1024 * 1024;
+
+/** File events kept for mcpmon://file-watch */
+const MAX_WATCH_EVENTS = 50;
+
+/** Restarts and unexpected exits kept for mcpmon://stats and the diagnostic prompts */
+const MAX_HISTORY = 50;
+
+/** Request timings kept for the performance_analysis prompt */
+const MAX_REQUEST_TIMINGS = 500;
+
+/**
+ * Append to a history list, dropping the oldest entries beyond a limit
+ */
+function pushBounded<T>(list: T[], item: T, limit: number) {
+  list.push(item);
+  if (list.length > limit) list.splice(0, list.length - limit);
+}
+
+/**
+ * Split a command line into a command and its arguments. Whitespace separates arguments
+ * unless it is inside single or double quotes; no other shell syntax is interpreted.
+ */
+function splitCommand(commandLine: string): string[] {
+  const parts: string[] = [];
+  const pattern = /"([^"]*)"|'([^']*)'|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(commandLine))) {
+    parts.push(match[1] ?? match[2] ?? match[3]);
+  }
+  return parts;
+}
+
+/**
+ * A server started next to the running one during a blue/green restart
+ */
+interface ServerCandidate {
+  process: ManagedProcess;
+  stdin: WriteQueue;
+  generation: number;
+  /** Whether the candidate completed the initialize handshake during validation */
+  initialized: boolean;
+  capabilities: Record<string, unknown> | null;
+}
+
+/** A restart in progress, for its history record and events */
+interface RestartContext {
+  reason: string;
+  trigger: RestartTrigger;
+  startedAt: number;
+}
+
+/**
+ * Crash-loop status of the managed server
+ */
+export interface CrashLoopState {
+  /**
+   * "healthy" - exits are restarted immediately;
+   * "backoff" - the server is crash-looping and restarts are delayed exponentially;
+   * "broken" - retries are exhausted and the next file change is awaited
+   */
+  state: "healthy" | "backoff" | "broken";
+  /** Unexpected exits within the current crash window */
+  recentExits: number;
+  /** Backoff restarts since the crash loop was detected */
+  attempt: number;
+  /** When the next backoff restart is due (ms since epoch), or null */
+  nextRetryAt: number | null;
+}
+
+/**
+ * Snapshot of the proxy and the server it manages
+ */
+export interface ProxyStatus {
+  /** PID of the current server, or null while none is running */
+  pid: number | null;
+  /** Whether a server is running and not in the middle of a restart */
+  running: boolean;
+  restarting: boolean;
+  /** Increments every time a server process is started */
+  generation: number;
+  /** When the current server was started (ms since epoch), or null */
+  startedAt: number | null;
+  /** Client requests forwarded to the server and not yet answered */
+  inflightRequests: number;
+  /** Client messages held back until the restarted server is ready */
+  bufferedMessages: number;
+  /** Whether file changes are currently ignored (see pauseWatching) */
+  watchPaused: boolean;
+  crashLoop: CrashLoopState;
+}
+
+/**
+ * A restart triggered by a file change or forceRestart
+ */
+export interface RestartRecord {
+  /** When the restart began (ms since epoch) */
+  time: number;
+  reason: string;
+  /** "aborted" - a build command failed; "failed" - the new server did not come up */
+  outcome: "completed" | "aborted" | "failed";
+  durationMs: number;
+  /** PID of the server running afterwards */
+  pid: number | null;
+}
+
+/**
+ * An exit of the server that mcpmon did not ask for
+ */
+export interface ExitRecord {
+  time: number;
+  pid: number | null;
+  reason: string;
+  /** How long the server had been running */
+  uptimeMs: number;
+}
+
+/**
+ * How long the server took to answer a client request
+ */
+export interface RequestTiming {
+  /** When the response arrived (ms since epoch) */
+  time: number;
+  method: string;
+  durationMs: number;
+}
+
+/**
+ * Recent restarts, exits and request timings, oldest first
+ */
+export interface ProxyHistory {
+  restarts: RestartRecord[];
+  exits: ExitRecord[];
+  requests: RequestTiming[];
+}
+
 export interface MCPProxyConfig {
   command: string;
   commandArgs: string[];
@@ -79,10 +312,80 @@ export interface MCPProxyConfig {
   watchTargets?: string[];
   restartDelay: number;
   env?: Record<string, string>;
-  /** Delay in ms after killing server before starting new one (default: 1000) */
+  /**
+   * Delay in ms after killing server before starting new one (default: 1000). Skipped when
+   * readyProbe or readyPattern is set, since the old server's exit has already been awaited.
+   */
   killDelay?: number;
-  /** Delay in ms after starting server before declaring ready (default: 2000) */
+  /**
+   * Delay in ms after starting server before declaring ready (default: 2000).
+   * When readyProbe or readyPattern is set this is only the upper bound of the wait.
+   */
   readyDelay?: number;
+  /**
+   * Probe the restarted server until it answers instead of sleeping for readyDelay.
+   * "initialize" replays the captured initialize params (falling back to ping before the
+   * client has initialized); "ping" sends an MCP ping request.
+   */
+  readyProbe?: "initialize" | "ping";
+  /** Regex matched against server stderr; a match marks the restarted server as ready */
+  readyPattern?: string | RegExp;
+  /**
+   * Idempotent methods (e.g. "tools/list", "resources/read") whose in-flight requests are re-sent
+   * to the new server when the old one dies. Other in-flight requests get a JSON-RPC error.
+   */
+  retryMethods?: string[];
+  /**
+   * Before a file-change restart, stop forwarding new requests and wait up to this many ms for
+   * in-flight requests to finish before killing the server (default: 0, kill immediately)
+   */
+  drainTimeout?: number;
+  /**
+   * Forward only JSON-RPC lines from server stdout to the client. Anything else (stray
+   * console.log / print output) is redirected to stderr tagged [stdout-noise].
+   */
+  strictStdout?: boolean;
+  /** Unexpected exits within crashWindow that count as a crash loop (default: 3) */
+  crashThreshold?: number;
+  /** Time window in ms for crash-loop detection (default: 10000) */
+  crashWindow?: number;
+  /** First backoff delay in ms once a crash loop is detected; doubles per attempt (default: 1000) */
+  crashBackoff?: number;
+  /**
+   * Backoff restarts before giving up until the next file change (default: 5).
+   * A server that then stays up for crashWindow is considered healthy again.
+   */
+  crashMaxRetries?: number;
+  /** Send an MCP ping every this many ms to detect a hung server (default: 0, disabled) */
+  healthCheckInterval?: number;
+  /** How long in ms a health check ping may go unanswered (default: 5000) */
+  healthCheckTimeout?: number;
+  /** Consecutive unanswered pings after which the server is killed and restarted (default: 3) */
+  healthCheckFailures?: number;
+  /**
+   * Blue/green restarts: start the new server next to the old one, validate it with the
+   * initialize handshake and tools/list, and only then switch traffic and kill the old one.
+   * If validation fails the old server keeps running.
+   */
+  blueGreen?: boolean;
+  /**
+   * Commands run in order after a file change and before the server is restarted, e.g.
+   * "tsc -p .". If any exits non-zero the restart is aborted, the old server keeps running and
+   * the command's output is shown. Quotes group arguments; no other shell syntax is supported.
+   */
+  buildCommands?: string[];
+  /**
+   * Bytes of log history kept for the mcpmon://logs resources, separately for the proxy log
+   * and the server log; the oldest lines are dropped first (default: 1 MiB)
+   */
+  logBufferSize?: number;
+  /**
+   * Add mcpmon's own tools (restart, server_logs, status, tool_diff) to the server's tools, so
+   * the assistant can restart the server and read its output itself (default: false)
+   */
+  controlTools?: boolean;
+  /** Prefix of the control tool names (default: "mcpmon_") */
+  controlToolPrefix?: string;
 }
 
 /**
@@ -97,6 +400,8 @@ export interface MCPProxyConfig {
  */
 export class MCPProxy {
   private managedProcess: ManagedProcess | null = null;
+  // Ordered outbound queue for the current server's stdin (one per process)
+  private serverStdin: WriteQueue | null = null;
   private serverPid: number | null = null;
   private stdinBuffer: Uint8Array[] = [];
   private messageBuffer: Message[] = [];
@@ -104,12 +409,40 @@ export class MCPProxy {
   private stdinReader: ReadableStreamDefaultReader<Uint8Array> | null = null;
   private currentRequestId = 1;
   private initializeParams: unknown = null;
+  // Session-shaping client state replayed to every new server process
+  private clientInitialized = false;
+  private loggingParams: unknown = null;
+  private resourceSubscriptions = new Set<string>();
+  private rootsListChanged = false;
+  // Client requests forwarded to the server and not yet answered, by client id
+  private inflightRequests = new Map<
+    MessageId,
+    { message: Message; generation: number; sentAt: number }
+  >();
+  private serverGeneration = 0;
+  private lastGeneration = 0;
+  // Blue/green restart candidate being validated
+  private candidateProcess: ManagedProcess | null = null;
+  // Tail of the restart chain; restarts run one at a time
+  private restartQueue: Promise<void> = Promise.resolve();
+  // Pre-restart build command currently running
+  private buildProcess: ManagedProcess | null = null;
+  private draining = false;
+  // Capabilities the client negotiated and those of the current server process
+  private sessionCapabilities: Record<string, { listChanged?: boolean }> | null = null;
+  private serverCapabilities: Record<string, unknown> | null = null;
+  // Last known tools/resources/prompts per list method, used to detect changes across restarts
+  private listSnapshots = new Map<ListKind["method"], unknown[]>();
+  private lastDiff: ReloadDiff | null = null;
+  private onInflightDrained?: () => void;
   private pendingRequests = new Map<
-    number,
+    string,
     {
       resolve: (response: Message) => void;
       reject: (error: Error) => void;
       timeoutId?: NodeJS.Timeout;
+      /** The server the request went to */
+      stdin: WriteQueue | null;
     }
   >();
   private stdinForwardingStarted = false;
@@ -119,15 +452,58 @@ export class MCPProxy {
   private startPromise?: Promise<void>;
   private monitoringTimeout?: NodeJS.Timeout;
   private errorRetryTimeout?: NodeJS.Timeout;
+  private readyPattern?: RegExp;
+  private stderrTail = "";
+  private stderrReadySeen = false;
+  private onStderrReady?: () => void;
+  private serverInitialized = false;
+  private initializedNotified = false;
+  private stdoutNoiseCount = 0;
+  // Log history for getRecentLogs and the mcpmon://logs resources
+  private proxyLog: LogBuffer;
+  private serverLog: LogBuffer;
+  // Counters and file events for mcpmon://stats and mcpmon://file-watch
+  private readonly proxyStartedAt = Date.now();
+  private restartCount = 0;
+  private crashCount = 0;
+  private history: ProxyHistory = { restarts: [], exits: [], requests: [] };
+  private clientMessages = 0;
+  private serverMessages = 0;
+  private watchEvents: Array<{ time: number; type: string; path: string; action: string }> = [];
+  private lastTriggerAt: number | null = null;
+  // Lifecycle events for library users, and the processes the proxy stopped on purpose
+  private events = new ProxyEventEmitter((error, event) =>
+    this.log.warn(`⚠️  ${event.type} event listener failed:`, error)
+  );
+  private stoppedProcesses = new WeakSet<ManagedProcess>();
+  // File watching can be paused from the outside, e.g. during a multi-file refactor
+  private watchPaused = false;
+  private changedWhilePaused = false;
+  // Crash-loop detection
+  private crashState: CrashLoopState["state"] = "healthy";
+  private recentExits: number[] = [];
+  private backoffAttempt = 0;
+  private nextRetryAt: number | null = null;
+  private serverStartedAt = 0;
+  private backoffTimeout?: NodeJS.Timeout;
+  private recoveryTimeout?: NodeJS.Timeout;
+  // Liveness probing
+  private healthCheckTimer?: NodeJS.Timeout;
+  private failedPings = 0;
+  private exitReason: string | null = null;
+  private cancelBackoff?: () => void;
 
   // Dependency injection
   private procManager: ProcessManager;
   private changeSource: ChangeSource;
   private config: MCPProxyConfig;
   private stdin: ReadableStream<Uint8Array>;
-  private stdout: WritableStream<Uint8Array>;
-  private stderr: WritableStream<Uint8Array>;
+  private stdout: WriteQueue;
+  private stderr: WriteQueue;
   private exit: (code: number) => void;
+  private log: Logger;
+  private logSink?: LogSink;
+  private transcript?: TranscriptSink;
 
   constructor(dependencies: ProxyDependencies, config: MCPProxyConfig) {
     this.procManager = dependencies.procManager;
@@ -143,64 +519,203 @@ export class MCPProxy {
     }
 
     this.stdin = dependencies.stdin;
-    this.stdout = dependencies.stdout;
-    this.stderr = dependencies.stderr;
+    this.stdout = new WriteQueue(dependencies.stdout);
+    this.stderr = new WriteQueue(dependencies.stderr);
     this.exit = dependencies.exit;
+    this.logSink = dependencies.logSink;
+    this.transcript = dependencies.transcript;
     this.config = this.normalizeConfig(config);
+    this.proxyLog = new LogBuffer(this.config.logBufferSize ?? DEFAULT_LOG_BUFFER_SIZE);
+    this.serverLog = new LogBuffer(this.config.logBufferSize ?? DEFAULT_LOG_BUFFER_SIZE);
+    this.log = this.recordingLogger(
+      dependencies.logger ??
+        new StreamLogger({ write: (line) => this.stderr.writeLine(line).catch(() => {}) })
+    );
+    if (this.config.readyPattern) {
+      this.readyPattern = new RegExp(this.config.readyPattern);
+    }
+
+    // Restarts, exits and file changes appear in the transcript between the messages
+    const transcript = this.transcript;
+    if (transcript) {
+      this.events.on("*", ({ type, time, ...payload }) => {
+        if (type === "message:client" || type === "message:server") return;
+        const marker = { time: new Date(time).toISOString(), type: "marker", event: type };
+        transcript.write({ ...marker, ...payload } as TranscriptMarker);
+      });
+    }
 
     // Initialize restart function with config
-    this.restart = debounce(async () => {
-      console.error("\n🔄 File change detected, restarting server...");
-      this.restarting = true;
+    this.restart = debounce(
+      () => this.queueRestart("File change detected", "change"),
+      this.config.restartDelay
+    );
+  }
 
-      // Kill the old server completely
-      await this.killServer();
+  /**
+   * Restart the server now, bypassing the file-change debounce. Used for changes the watcher
+   * cannot see, such as a database migration; also triggered by SIGHUP/SIGUSR2 in the CLI.
+   *
+   * @param reason - Why the restart was requested, for the logs
+   * @returns Resolves once the restart has completed (or was aborted)
+   */
+  async forceRestart(reason: string): Promise<void> {
+    if (this.shutdownRequested) return;
+    this.restart.clear();
+    const message = `Restart requested (${reason})`;
+    this.emit("restart:scheduled", { reason: message, trigger: "request", delayMs: 0 });
+    await this.queueRestart(message, "request");
+  }
 
-      // Wait a moment to ensure process is fully terminated
-      await new Promise((resolve) => {
-        const timeout = setTimeout(resolve, this.config.killDelay || 1000);
-        timeout.unref();
-      });
+  /**
+   * Listen for lifecycle events: "server:spawn", "server:exit", "restart:scheduled",
+   * "restart:start", "restart:complete", "restart:failed", "change", "message:client",
+   * "message:server" and "tools:changed" - or "*" for all of them. Listeners run synchronously
+   * and should return quickly; message listeners see every message the proxy forwards.
+   *
+   * @returns A function that removes the listener
+   */
+  on<T extends ProxyEventType | "*">(type: T, listener: ProxyEventListener<T>): () => void {
+    return this.events.on(type, listener);
+  }
 
-      // Start new server
-      try {
-        await this.startServer();
-      } catch (error) {
-        console.error(`❌ Failed to start server during restart: ${error}`);
-        this.restarting = false;
-        return; // Exit restart function if we can't start server
+  /**
+   * Remove a listener added with on
+   */
+  off<T extends ProxyEventType | "*">(type: T, listener: ProxyEventListener<T>) {
+    this.events.off(type, listener);
+  }
+
+  private emit<T extends ProxyEventType>(type: T, payload: ProxyEventMap[T]) {
+    this.events.emit(type, payload);
+  }
+
+  /**
+   * Debounce a restart for a file change
+   */
+  private scheduleChangeRestart() {
+    const delayMs = this.config.restartDelay;
+    this.emit("restart:scheduled", { reason: "File change detected", trigger: "change", delayMs });
+    this.restart();
+  }
+
+  /**
+   * Run a restart after any restart already in progress, so two never overlap
+   */
+  private queueRestart(reason: string, trigger: RestartTrigger): Promise<void> {
+    return this.enqueueRestart(() => this.performRestart(reason, trigger));
+  }
+
+  /**
+   * Append a restart - from a file change, a request or a crash - to the restart chain
+   */
+  private enqueueRestart(restart: () => Promise<void>): Promise<void> {
+    const run = this.restartQueue.then(restart);
+    this.restartQueue = run.catch(() => {});
+    return run;
+  }
+
+  /**
+   * Rebuild, stop the old server and bring up a new one with the client's session replayed
+   */
+  private async performRestart(reason: string, trigger: RestartTrigger) {
+    this.log.info(`\n🔄 ${reason}, restarting server...`);
+    const restart: RestartContext = { reason, trigger, startedAt: Date.now() };
+    this.emit("restart:start", { reason, trigger });
+
+    // Rebuild first; a failed build leaves the running server alone
+    if (this.config.buildCommands?.length && !(await this.runBuildCommands())) {
+      this.recordRestart(restart, "aborted", { stage: "build", error: "build command failed" });
+      return;
+    }
+
+    // A file change (or explicit restart) is the fix a crash-looping server was waiting for
+    this.cancelBackoff?.();
+    clearTimeout(this.recoveryTimeout);
+    if (this.crashState !== "healthy") {
+      this.log.info("🩹 Leaving crash-loop state for a fresh restart");
+      this.resetCrashLoop();
+    }
+
+    // Keep the old server serving until the new one has proven itself
+    if (this.config.blueGreen && this.managedProcess) {
+      const switched = await this.blueGreenRestart();
+      if (switched) {
+        this.recordRestart(restart, "completed");
+      } else {
+        this.recordRestart(restart, "failed", {
+          stage: "validation",
+          error: "new server failed validation",
+        });
       }
+      return;
+    }
+
+    this.restarting = true;
+
+    // Let in-flight requests finish first; new requests are buffered meanwhile
+    if (this.config.drainTimeout) {
+      await this.drainInflightRequests(this.config.drainTimeout);
+    }
 
-      // Wait for server to be ready
+    // Kill the old server completely
+    await this.killServer();
+    await this.abandonInflightRequests("restarted");
+
+    // Without readiness detection, wait a moment to ensure the process is fully terminated.
+    // With it, killServer has already waited for the exit and the new server says when it's up.
+    if (!this.config.readyProbe && !this.readyPattern) {
       await new Promise((resolve) => {
-        const timeout = setTimeout(resolve, this.config.readyDelay || 2000);
+        const timeout = setTimeout(resolve, this.config.killDelay || 1000);
         timeout.unref();
       });
+    }
 
-      // Get updated tools list
-      const tools = await this.getToolsList();
+    // Start new server
+    try {
+      await this.startServer();
+    } catch (error) {
+      this.log.error(`❌ Failed to start server during restart: ${error}`);
+      this.restarting = false;
+      this.recordRestart(restart, "failed", { stage: "spawn", error: String(error) });
+      return; // Exit restart function if we can't start server
+    }
 
-      // Send tool change notification
-      const notification: Message = {
-        jsonrpc: "2.0",
-        method: "notifications/tools/list_changed",
-        params: {
-          tools: tools,
-        },
-      };
+    // Wait for server to be ready
+    await this.waitForReady();
 
-      try {
-        const writer = this.stdout.getWriter();
-        await writer.write(new TextEncoder().encode(JSON.stringify(notification) + "\n"));
-        writer.releaseLock();
-        console.error(`📢 Sent tool change notification with ${tools.length} tools`);
-      } catch (error) {
-        console.error("❌ Failed to send notification:", error);
-      }
+    // Bring the new server into the client's negotiated state before anything else reaches it
+    const initialized = await this.replaySession();
+    await this.flushMessageBuffer();
 
-      this.restarting = false;
-      console.error("✅ Server restart complete\n");
-    }, this.config.restartDelay);
+    // Tell the client about tools/resources/prompts that changed
+    if (initialized) {
+      await this.refreshLists();
+    }
+
+    this.recordRestart(restart, "completed");
+    this.log.info("✅ Server restart complete\n");
+  }
+
+  private recordRestart(
+    { reason, trigger, startedAt }: RestartContext,
+    outcome: RestartRecord["outcome"],
+    failure?: Pick<ProxyEventMap["restart:failed"], "stage" | "error">
+  ) {
+    const durationMs = Date.now() - startedAt;
+    pushBounded(
+      this.history.restarts,
+      { time: startedAt, reason, outcome, durationMs, pid: this.serverPid },
+      MAX_HISTORY
+    );
+
+    if (outcome === "completed") {
+      this.restartCount++;
+      const { serverPid: pid, serverGeneration: generation } = this;
+      this.emit("restart:complete", { reason, trigger, pid, generation, durationMs });
+    } else if (failure) {
+      this.emit("restart:failed", { reason, trigger, ...failure, durationMs });
+    }
   }
 
   /**
@@ -244,6 +759,93 @@ export class MCPProxy {
     };
   }
 
+  /**
+   * Get a snapshot of the proxy and server state
+   */
+  getStatus(): ProxyStatus {
+    return {
+      pid: this.serverPid,
+      running: this.isRunning(),
+      restarting: this.restarting,
+      generation: this.serverGeneration,
+      startedAt: this.managedProcess ? this.serverStartedAt : null,
+      inflightRequests: this.inflightRequests.size,
+      bufferedMessages: this.messageBuffer.length,
+      watchPaused: this.watchPaused,
+      crashLoop: this.getCrashLoopState(),
+    };
+  }
+
+  /**
+   * Get the most recent lines the server wrote to stderr
+   *
+   * @param tail - Maximum number of lines to return (default: 100)
+   */
+  getRecentLogs(tail = 100): string[] {
+    return tail > 0 ? this.serverLog.read({ limit: tail }).entries.map((entry) => entry.text) : [];
+  }
+
+  /**
+   * Get the server's tools: fetched live when a session is established, otherwise the last
+   * list seen by the client or the proxy
+   *
+   * @returns The tools, or null if they are unknown
+   */
+  async listTools(): Promise<unknown[] | null> {
+    const tools = LIST_KINDS.find((kind) => kind.method === "tools/list")!;
+    if (this.isRunning() && (this.serverInitialized || this.sessionCapabilities)) {
+      const live = await this.fetchList(tools);
+      if (live) return live;
+    }
+    return this.listSnapshots.get(tools.method) ?? null;
+  }
+
+  /**
+   * Ignore file changes until resumeWatching is called
+   */
+  pauseWatching() {
+    if (this.watchPaused) return;
+    this.watchPaused = true;
+    this.changedWhilePaused = false;
+    this.restart.clear();
+    this.log.info("⏸️  File watching paused");
+  }
+
+  /**
+   * Resume reacting to file changes; changes made while paused trigger one restart
+   */
+  resumeWatching() {
+    if (!this.watchPaused) return;
+    this.watchPaused = false;
+    this.log.info("▶️  File watching resumed");
+    if (this.changedWhilePaused) {
+      this.changedWhilePaused = false;
+      this.scheduleChangeRestart();
+    }
+  }
+
+  /**
+   * Get the tool/resource/prompt diff computed on the most recent reload
+   *
+   * @returns The diff, or null if no reload has refreshed the lists yet
+   */
+  getLastDiff(): ReloadDiff | null {
+    return this.lastDiff;
+  }
+
+  /**
+   * Get the crash-loop status of the managed server
+   */
+  getCrashLoopState(): CrashLoopState {
+    const window = this.config.crashWindow ?? 10000;
+    return {
+      state: this.crashState,
+      recentExits: this.recentExits.filter((time) => Date.now() - time < window).length,
+      attempt: this.backoffAttempt,
+      nextRetryAt: this.nextRetryAt,
+    };
+  }
+
   /**
    * Check if the proxy and server are currently running
    */
@@ -256,7 +858,7 @@ export class MCPProxy {
     try {
       await this.startServer();
     } catch (error) {
-      console.error(`❌ Failed to start initial server: ${error}`);
+      this.log.error(`❌ Failed to start initial server: ${error}`);
       // Continue with setup even if initial server fails
       // Watcher can trigger restart later
     }
@@ -264,6 +866,9 @@ export class MCPProxy {
     // Setup continuous stdin forwarding
     this.setupStdinForwarding();
 
+    // Periodically ping the server to catch hangs the exit status never reports
+    this.scheduleHealthCheck();
+
     // Start watcher if we have targets to monitor
     if (this.config.watchTargets && this.config.watchTargets.length > 0) {
       this.startWatcher();
@@ -276,26 +881,21 @@ export class MCPProxy {
         try {
           const status = await this.managedProcess.status;
           if (!this.restarting) {
-            console.error(`⚠️  Server exited unexpectedly with code: ${status.code}`);
-            console.error(`🔄 Restarting server...`);
-            try {
-              await this.startServer();
-            } catch (error) {
-              console.error(`❌ Failed to restart server: ${error}`);
+            if (this.exitReason) {
+              this.log.warn(`⚠️  Server ${this.exitReason} (exit code: ${status.code})`);
+            } else {
+              this.log.warn(`⚠️  Server exited unexpectedly with code: ${status.code}`);
             }
+            await this.restartAfterExit(this.exitReason ?? `exited with code ${status.code}`);
           }
         } catch (error) {
           if (!this.restarting) {
-            console.error(`❌ Server process error: ${error}`);
+            this.log.error(`❌ Server process error: ${error}`);
             await new Promise((resolve) => {
               this.errorRetryTimeout = setTimeout(resolve, 1000);
               this.errorRetryTimeout.unref();
             });
-            try {
-              await this.startServer();
-            } catch (startError) {
-              console.error(`❌ Failed to restart server after error: ${startError}`);
-            }
+            await this.restartAfterExit("crashed");
           }
         }
       }
@@ -308,83 +908,749 @@ export class MCPProxy {
     }
   }
 
-  private async startServer() {
-    console.error("🚀 Starting MCP server...");
-
-    try {
-      this.managedProcess = this.procManager.spawn(this.config.command, this.config.commandArgs, {
-        env: this.config.env || {}, // Use config env or empty object
+  /**
+   * Restart a server that exited on its own - immediately, after an exponential backoff when it
+   * is crash-looping, or not at all once retries are exhausted (the next file change retries)
+   */
+  private async restartAfterExit(reason: string) {
+    // The dead server takes no more messages: client traffic is buffered until the restarted
+    // server has replayed the session, as during any restart
+    this.restarting = true;
+    this.managedProcess = null;
+    this.settlePendingRequests(this.serverStdin, `Server ${reason}`);
+    this.serverStdin = null;
+
+    pushBounded(
+      this.history.exits,
+      {
+        time: Date.now(),
+        pid: this.serverPid,
+        reason,
+        uptimeMs: Date.now() - this.serverStartedAt,
+      },
+      MAX_HISTORY
+    );
+    await this.abandonInflightRequests(reason);
+
+    const delay = this.recordCrash();
+    if (delay === null) {
+      // Broken: idle until a file change restarts the server, failing requests fast meanwhile -
+      // including those buffered for a restart that will not come
+      this.restarting = false;
+      for (const message of this.messageBuffer.splice(0)) {
+        await this.failCrashLooping(message);
+      }
+      this.emit("restart:failed", {
+        reason,
+        trigger: "exit",
+        stage: "crash-loop",
+        error: "server is crash-looping and backoff restarts were exhausted",
+        durationMs: 0,
       });
-
-      this.serverPid = this.managedProcess.pid || null;
-      console.error(`✅ Server started with PID: ${this.serverPid}`);
-    } catch (error) {
-      console.error(`❌ Failed to spawn server process: ${error}`);
-      this.managedProcess = null;
-      this.serverPid = null;
-      throw error; // Re-throw so caller can handle
+      return;
+    }
+    this.emit("restart:scheduled", { reason, trigger: "exit", delayMs: delay });
+
+    if (delay > 0) {
+      const resumed = await new Promise<boolean>((resolve) => {
+        this.backoffTimeout = setTimeout(() => resolve(true), delay);
+        this.backoffTimeout.unref();
+        this.cancelBackoff = () => {
+          clearTimeout(this.backoffTimeout);
+          resolve(false);
+        };
+      });
+      this.cancelBackoff = undefined;
+      this.nextRetryAt = null;
+      if (!resumed) return; // A file change or shutdown took over
     }
 
-    // Setup output forwarding
-    this.setupOutputForwarding();
+    // Wait for a restart that is already under way rather than racing it
+    await this.enqueueRestart(() => this.respawnAfterExit(reason));
+  }
 
-    // Replay buffered messages
-    if (this.messageBuffer.length > 0) {
-      console.error(`📨 Replaying ${this.messageBuffer.length} buffered messages...`);
-      const writer = this.managedProcess.stdin.getWriter();
+  /**
+   * Start a server in place of one that exited, unless a restart that ran in the meantime
+   * already did, and replay the client's session to it
+   */
+  private async respawnAfterExit(reason: string) {
+    if (this.managedProcess || this.shutdownRequested) return;
 
-      for (const msg of this.messageBuffer) {
-        const data = new TextEncoder().encode(JSON.stringify(msg) + "\n");
-        await writer.write(data);
-      }
+    this.log.info(`🔄 Restarting server...`);
+    const startedAt = Date.now();
+    this.emit("restart:start", { reason, trigger: "exit" });
+    try {
+      await this.startServer();
+      await this.replaySession();
+      await this.flushMessageBuffer();
+    } catch (error) {
+      this.log.error(`❌ Failed to restart server: ${error}`);
+      this.restarting = false;
+      const durationMs = Date.now() - startedAt;
+      this.emit("restart:failed", {
+        reason,
+        trigger: "exit",
+        stage: "spawn",
+        error: String(error),
+        durationMs,
+      });
+      return;
+    }
+    this.emit("restart:complete", {
+      reason,
+      trigger: "exit",
+      pid: this.serverPid,
+      generation: this.serverGeneration,
+      durationMs: Date.now() - startedAt,
+    });
 
-      writer.releaseLock();
-      this.messageBuffer = [];
+    // Surviving a whole crash window after a backoff restart ends the crash loop
+    if (this.crashState === "backoff") {
+      const generation = this.serverGeneration;
+      this.recoveryTimeout = setTimeout(() => {
+        if (generation === this.serverGeneration && this.crashState === "backoff") {
+          this.log.info("✅ Server recovered from crash loop");
+          this.resetCrashLoop();
+        }
+      }, this.config.crashWindow ?? 10000);
+      this.recoveryTimeout.unref();
     }
   }
 
-  private async killServer() {
-    if (!this.managedProcess || !this.serverPid) return;
+  private scheduleHealthCheck() {
+    const interval = this.config.healthCheckInterval;
+    if (!interval || this.shutdownRequested) return;
+
+    this.healthCheckTimer = setTimeout(async () => {
+      await this.checkHealth();
+      this.scheduleHealthCheck();
+    }, interval);
+    this.healthCheckTimer.unref();
+  }
 
-    console.error(`🛑 Killing server process ${this.serverPid}...`);
+  /**
+   * Ping the server and kill it once healthCheckFailures pings in a row go unanswered.
+   * The monitor loop then restarts it like any other exit, with the hang as the reason.
+   */
+  private async checkHealth() {
+    if (!this.managedProcess || this.restarting) return;
 
+    const generation = this.serverGeneration;
+    let response: Message;
     try {
-      // First try SIGTERM
-      this.managedProcess.kill("SIGTERM");
+      response = await this.sendRequest("ping", undefined, this.config.healthCheckTimeout ?? 5000);
+    } catch {
+      return; // proxy shutting down
+    }
+    // The server was replaced while we waited - its answer says nothing about the new one
+    if (generation !== this.serverGeneration || this.restarting || !this.managedProcess) return;
 
-      // Wait up to 5 seconds for graceful shutdown
-      this.killTimeout = setTimeout(() => {
-        console.error("⚠️  Server didn't exit gracefully, sending SIGKILL...");
-        this.managedProcess?.kill("SIGKILL");
-      }, 5000);
-      this.killTimeout.unref();
+    // Any answer, even an error, proves the server is alive
+    if (response.error?.data !== NO_RESPONSE) {
+      this.failedPings = 0;
+      return;
+    }
 
-      await this.managedProcess.status;
-      clearTimeout(this.killTimeout);
-      this.killTimeout = undefined;
+    const threshold = this.config.healthCheckFailures ?? 3;
+    this.failedPings++;
+    this.log.warn(`⚠️  Health check ping unanswered (${this.failedPings}/${threshold})`);
+    if (this.failedPings < threshold) return;
 
-      // Verify process is actually dead
-      await this.verifyProcessKilled(this.serverPid);
+    this.log.error(`💀 Server is not responding, killing PID ${this.serverPid} to restart it`);
+    this.exitReason = `stopped responding to ${threshold} health check pings`;
+    this.managedProcess.kill("SIGKILL");
+  }
 
-      console.error(`✅ Server process ${this.serverPid} terminated`);
-    } catch (error) {
-      console.error(`❌ Error killing server: ${error}`);
+  /**
+   * Record an unexpected exit and decide how long to wait before restarting
+   *
+   * @returns Backoff delay in ms (0 restarts immediately), or null when the proxy gives up
+   */
+  private recordCrash(): number | null {
+    const now = Date.now();
+    const threshold = this.config.crashThreshold ?? 3;
+    const window = this.config.crashWindow ?? 10000;
+    const maxRetries = this.config.crashMaxRetries ?? 5;
+    clearTimeout(this.recoveryTimeout);
+
+    // A server that stayed up for a whole window has recovered
+    if (now - this.serverStartedAt >= window) {
+      this.resetCrashLoop();
     }
+    this.recentExits = this.recentExits.filter((time) => now - time < window);
+    this.recentExits.push(now);
+    this.crashCount++;
 
-    this.managedProcess = null;
-    this.serverPid = null;
-  }
+    if (this.backoffAttempt === 0 && this.recentExits.length < threshold) {
+      return 0;
+    }
 
-  private async verifyProcessKilled(pid: number) {
-    // Try to check if process still exists
-    try {
-      // On Unix systems, sending signal 0 checks if process exists
-      process.kill(pid, 0);
-      // If we get here, process still exists
-      console.error(`⚠️  Process ${pid} still running, forcing kill...`);
-      process.kill(pid, "SIGKILL");
-    } catch {
-      // Process doesn't exist, which is what we want
+    this.backoffAttempt++;
+    if (this.backoffAttempt > maxRetries) {
+      this.crashState = "broken";
+      this.log.error(
+        `💥 Server is crash-looping and ${maxRetries} backoff restarts failed - ` +
+          `fix the error and save a file to try again`
+      );
+      return null;
+    }
+
+    const delay = Math.min(
+      (this.config.crashBackoff ?? 1000) * 2 ** (this.backoffAttempt - 1),
+      MAX_CRASH_BACKOFF
+    );
+    this.crashState = "backoff";
+    this.nextRetryAt = now + delay;
+    this.log.warn(
+      `⏳ Crash loop detected (${this.recentExits.length} exits in ${window}ms), ` +
+        `restarting in ${delay}ms (attempt ${this.backoffAttempt}/${maxRetries})`
+    );
+    return delay;
+  }
+
+  private resetCrashLoop() {
+    this.crashState = "healthy";
+    this.recentExits = [];
+    this.backoffAttempt = 0;
+    this.nextRetryAt = null;
+  }
+
+  private async startServer() {
+    this.log.info("🚀 Starting MCP server...");
+
+    try {
+      const process = this.procManager.spawn(this.config.command, this.config.commandArgs, {
+        env: this.config.env || {}, // Use config env or empty object
+      });
+      this.attachServer(process, new WriteQueue(process.stdin), ++this.lastGeneration);
+      this.log.info(`✅ Server started with PID: ${this.serverPid}`);
+      this.reportSpawn(process, this.serverGeneration, false);
+    } catch (error) {
+      this.log.error(`❌ Failed to spawn server process: ${error}`);
+      this.managedProcess = null;
+      this.serverStdin = null;
+      this.serverPid = null;
+      throw error; // Re-throw so caller can handle
+    }
+
+    // Setup output forwarding
+    this.setupOutputForwarding(this.managedProcess!, this.serverGeneration);
+  }
+
+  /**
+   * Emit server:spawn for a new server process, and server:exit once it exits
+   */
+  private reportSpawn(process: ManagedProcess, generation: number, candidate: boolean) {
+    const pid = process.pid ?? null;
+    const spawnedAt = Date.now();
+    this.emit("server:spawn", {
+      pid,
+      generation,
+      command: this.config.command,
+      args: this.config.commandArgs,
+      candidate,
+    });
+
+    process.status
+      .catch((error): ExitStatus => ({ code: null, signal: String(error) }))
+      .then((status) =>
+        this.emit("server:exit", {
+          pid,
+          generation,
+          code: status.code,
+          signal: status.signal,
+          expected: this.stoppedProcesses.has(process) || this.shutdownRequested,
+          uptimeMs: Date.now() - spawnedAt,
+        })
+      );
+  }
+
+  /**
+   * Run the pre-restart build commands in order, stopping at the first failure
+   *
+   * @returns Whether every command succeeded
+   */
+  private async runBuildCommands(): Promise<boolean> {
+    for (const commandLine of this.config.buildCommands!) {
+      const [command, ...args] = splitCommand(commandLine);
+      if (!command) continue;
+
+      this.log.info(`🔨 Running build: ${commandLine}`);
+      const startedAt = Date.now();
+      let process: ManagedProcess;
+      try {
+        process = this.procManager.spawn(command, args, { env: this.config.env || {} });
+      } catch (error) {
+        this.log.error(`❌ Build command failed to start: ${commandLine} (${error})`);
+        this.log.warn("⏸️  Restart aborted, keeping the current server running");
+        return false;
+      }
+
+      this.buildProcess = process;
+      const decoder = new TextDecoder();
+      let output = "";
+      const collect = async (stream: ReadableStream<Uint8Array>) => {
+        const reader = stream.getReader();
+        try {
+          while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            output += decoder.decode(value, { stream: true });
+          }
+        } catch {
+          // Stream closed with the process
+        } finally {
+          reader.releaseLock();
+        }
+      };
+      const exited = process.status.catch(
+        (error): ExitStatus => ({ code: null, signal: String(error) })
+      );
+
+      // Drain both pipes so a chatty build never blocks on a full buffer
+      const [status] = await Promise.all([
+        exited,
+        collect(process.stdout),
+        collect(process.stderr),
+      ]);
+      this.buildProcess = null;
+      if (this.shutdownRequested) return false;
+
+      if (status.code !== 0) {
+        const result = status.code === null ? `signal ${status.signal}` : `code ${status.code}`;
+        this.log.error(`❌ Build command failed with ${result}: ${commandLine}`);
+        if (output.trim()) {
+          this.log.error(output.trimEnd());
+        }
+        this.log.warn("⏸️  Restart aborted, keeping the current server running");
+        return false;
+      }
+      this.log.info(`✅ ${commandLine} succeeded in ${Date.now() - startedAt}ms`);
+    }
+    return true;
+  }
+
+  /**
+   * Make a spawned process the active server and reset all per-server state
+   */
+  private attachServer(process: ManagedProcess, stdin: WriteQueue, generation: number) {
+    this.managedProcess = process;
+    this.serverStdin = stdin;
+    this.serverPid = process.pid || null;
+    this.serverGeneration = generation;
+    this.serverStartedAt = Date.now();
+    this.failedPings = 0;
+    this.exitReason = null;
+    this.serverInitialized = false;
+    this.initializedNotified = false;
+    this.serverCapabilities = null;
+    this.stderrTail = "";
+    this.stderrReadySeen = false;
+  }
+
+  /**
+   * Blue/green restart: validate a new server while the old one keeps serving, then switch
+   *
+   * @returns false if the new server failed validation and the old one is still serving
+   */
+  private async blueGreenRestart(): Promise<boolean> {
+    const candidate = await this.startCandidate();
+    if (!candidate) return false;
+
+    // Switch over: buffer client traffic, retire the old server, promote the new one
+    this.restarting = true;
+    if (this.config.drainTimeout) {
+      await this.drainInflightRequests(this.config.drainTimeout);
+    }
+    await this.killServer();
+    await this.abandonInflightRequests("restarted");
+
+    this.attachServer(candidate.process, candidate.stdin, candidate.generation);
+    this.serverInitialized = candidate.initialized;
+    this.initializedNotified = candidate.initialized && this.clientInitialized;
+    this.serverCapabilities = candidate.capabilities;
+    this.log.info(`🔀 Switched traffic to new server PID ${this.serverPid}`);
+
+    const initialized = await this.replaySession();
+    await this.flushMessageBuffer();
+    if (initialized) {
+      await this.refreshLists();
+    }
+
+    this.log.info("✅ Server restart complete\n");
+    return true;
+  }
+
+  /**
+   * Spawn and validate a blue/green candidate. Its output is read (for the validation
+   * responses) but never forwarded to the client until it is promoted.
+   *
+   * @returns The validated candidate, or null if it failed and was killed
+   */
+  private async startCandidate(): Promise<ServerCandidate | null> {
+    this.log.info("🚀 Starting new server next to the running one (blue/green)...");
+
+    let process: ManagedProcess;
+    try {
+      process = this.procManager.spawn(this.config.command, this.config.commandArgs, {
+        env: this.config.env || {},
+      });
+    } catch (error) {
+      this.log.error(`❌ Failed to spawn new server, keeping the old one running: ${error}`);
+      return null;
+    }
+
+    const candidate: ServerCandidate = {
+      process,
+      stdin: new WriteQueue(process.stdin),
+      generation: ++this.lastGeneration,
+      initialized: false,
+      capabilities: null,
+    };
+    this.candidateProcess = process;
+    this.reportSpawn(process, candidate.generation, true);
+    this.setupOutputForwarding(process, candidate.generation);
+
+    const failure = await this.validateCandidate(candidate);
+    this.candidateProcess = null;
+    if (failure || this.shutdownRequested) {
+      if (failure) {
+        this.log.error(
+          `❌ New server failed validation (${failure}), keeping PID ${this.serverPid} running`
+        );
+      }
+      this.stoppedProcesses.add(process);
+      process.kill("SIGKILL");
+      return null;
+    }
+
+    this.log.info(`✅ New server PID ${process.pid} passed validation`);
+    return candidate;
+  }
+
+  /**
+   * Run the initialize handshake and tools/list against a candidate
+   *
+   * @returns A description of the failure, or null if the candidate is healthy
+   */
+  private async validateCandidate(candidate: ServerCandidate): Promise<string | null> {
+    const timeoutMs = this.config.readyDelay || 2000;
+    const exited = candidate.process.status.then(
+      (status) => `exited with code ${status.code}`,
+      (error) => `crashed: ${error}`
+    );
+    const call = async (method: string, params?: unknown): Promise<Message | string> => {
+      const response = await Promise.race([
+        this.sendRequest(method, params, timeoutMs, candidate.stdin).catch(
+          () => "proxy shutting down"
+        ),
+        exited,
+      ]);
+      if (typeof response === "string") return response;
+      if (response.error?.data === NO_RESPONSE) return `no response to ${method}`;
+      return response;
+    };
+
+    // Before the client's own handshake only liveness can be checked
+    if (!this.initializeParams) {
+      const ping = await call("ping");
+      return typeof ping === "string" ? ping : null;
+    }
+
+    const init = await call("initialize", this.initializeParams);
+    if (typeof init === "string") return init;
+    if (init.error) return `initialize failed: ${init.error.message}`;
+    candidate.initialized = true;
+    candidate.capabilities = this.capabilitiesOf(init);
+    if (this.clientInitialized) {
+      await this.sendNotification("notifications/initialized", undefined, candidate.stdin);
+    }
+
+    if (candidate.capabilities?.tools) {
+      const tools = await call("tools/list");
+      if (typeof tools === "string") return tools;
+      if (tools.error) return `tools/list failed: ${tools.error.message}`;
+    }
+    return null;
+  }
+
+  /**
+   * Forward messages buffered during restart to the new server and resume direct forwarding.
+   * Drains until the buffer is empty so nothing that arrives mid-replay is left behind.
+   */
+  private async flushMessageBuffer() {
+    if (this.messageBuffer.length > 0 && this.serverStdin) {
+      this.log.info(`📨 Replaying ${this.messageBuffer.length} buffered messages...`);
+
+      try {
+        while (this.messageBuffer.length > 0) {
+          const msg = this.messageBuffer.shift()!;
+          this.trackRequest(msg);
+          await this.serverStdin.writeMessage(msg);
+        }
+      } catch (error) {
+        this.log.error("❌ Failed to replay buffered messages:", error);
+      }
+    }
+    this.restarting = false;
+  }
+
+  /**
+   * Remember a client request forwarded to the current server until its response arrives
+   */
+  private trackRequest(message: Message) {
+    if (message.method && message.id !== undefined) {
+      this.inflightRequests.set(message.id, {
+        message,
+        generation: this.serverGeneration,
+        sentAt: Date.now(),
+      });
+    } else if (message.method === "notifications/cancelled") {
+      // The server will not answer a cancelled request
+      const { requestId } = (message.params || {}) as { requestId?: MessageId };
+      if (requestId !== undefined) {
+        this.completeInflightRequest(requestId);
+      }
+    }
+  }
+
+  private completeInflightRequest(id: MessageId) {
+    if (this.inflightRequests.delete(id) && this.inflightRequests.size === 0) {
+      this.onInflightDrained?.();
+    }
+  }
+
+  /**
+   * Wait until the current server has answered every in-flight request, it exits, or the
+   * deadline passes - whichever comes first.
+   */
+  private async drainInflightRequests(timeoutMs: number) {
+    const pending = this.inflightRequests.size;
+    if (pending === 0 || !this.managedProcess) return;
+
+    this.log.info(`⏳ Waiting up to ${timeoutMs}ms for ${pending} in-flight request(s)...`);
+    this.draining = true;
+
+    let timer: NodeJS.Timeout | undefined;
+    const drained = await Promise.race([
+      new Promise<boolean>((resolve) => {
+        this.onInflightDrained = () => resolve(true);
+      }),
+      new Promise<boolean>((resolve) => {
+        timer = setTimeout(() => resolve(false), timeoutMs);
+        timer.unref();
+      }),
+      this.managedProcess.status.then(
+        () => false,
+        () => false
+      ),
+    ]);
+
+    clearTimeout(timer);
+    this.onInflightDrained = undefined;
+    this.draining = false;
+
+    if (drained) {
+      this.log.info("✅ In-flight requests finished, restarting");
+    } else {
+      this.log.warn(`⚠️  Restarting with ${this.inflightRequests.size} request(s) still in flight`);
+    }
+  }
+
+  /**
+   * Settle every client request the dead server never answered: idempotent methods listed in
+   * retryMethods are buffered for the next server, everything else gets a JSON-RPC error so the
+   * client does not hang until its own timeout.
+   */
+  private async abandonInflightRequests(reason: string) {
+    const retryMethods = this.config.retryMethods || [];
+    const lost = [...this.inflightRequests.values()].filter(
+      (request) => request.generation <= this.serverGeneration
+    );
+    if (lost.length === 0) return;
+
+    let retried = 0;
+    for (const { message } of lost) {
+      this.inflightRequests.delete(message.id!);
+      if (retryMethods.includes(message.method!)) {
+        this.messageBuffer.push(message);
+        retried++;
+      } else {
+        await this.writeToClient({
+          jsonrpc: "2.0",
+          id: message.id,
+          error: {
+            code: SERVER_UNAVAILABLE,
+            message: `MCP server ${reason} before responding to ${message.method}`,
+            data: { method: message.method, reason },
+          },
+        });
+      }
+    }
+
+    this.log.warn(
+      `⚠️  ${lost.length} in-flight request(s) lost when server ${reason}` +
+        (retried > 0 ? ` (${retried} will be re-sent)` : "")
+    );
+  }
+
+  /**
+   * Answer a client request with an error while the server is crash-looping and not restarted
+   */
+  private async failCrashLooping(message: Message) {
+    if (!message.method || message.id === undefined) return;
+    await this.writeToClient({
+      jsonrpc: "2.0",
+      id: message.id,
+      error: {
+        code: SERVER_UNAVAILABLE,
+        message: "MCP server is crash-looping; fix the error and save a file to retry",
+        data: { method: message.method, reason: "crash-loop" },
+      },
+    });
+  }
+
+  /**
+   * Record client messages that shape the session so they can be replayed after a restart
+   */
+  private recordSessionMessage(message: Message) {
+    const params = (message.params || {}) as { uri?: string };
+
+    switch (message.method) {
+      case "initialize":
+        this.initializeParams = message.params;
+        this.log.debug("📋 Captured initialize params for replay");
+        break;
+      case "notifications/initialized":
+        this.clientInitialized = true;
+        break;
+      case "logging/setLevel":
+        this.loggingParams = message.params;
+        break;
+      case "resources/subscribe":
+        if (params.uri) this.resourceSubscriptions.add(params.uri);
+        break;
+      case "resources/unsubscribe":
+        if (params.uri) this.resourceSubscriptions.delete(params.uri);
+        break;
+      case "notifications/roots/list_changed":
+        this.rootsListChanged = true;
+        break;
+    }
+  }
+
+  /**
+   * Replay the recorded session to a freshly started server so it ends up in the same negotiated
+   * state as the previous one: initialize, notifications/initialized, logging/setLevel,
+   * resources/subscribe and roots/list_changed - in the order a client would send them.
+   *
+   * @returns false if the server rejected initialize
+   */
+  private async replaySession(): Promise<boolean> {
+    if (!this.managedProcess) return false;
+
+    try {
+      if (!this.initializeParams) {
+        this.log.warn("⚠️  No initialize params captured from original connection");
+        return true;
+      }
+
+      if (this.serverInitialized) {
+        this.log.debug("✅ Server already initialized by readiness probe");
+      } else {
+        this.log.debug("📤 Sending initialize request to new server...");
+        const initResponse = await this.sendRequest("initialize", this.initializeParams);
+        if (initResponse.error) {
+          this.log.error("❌ Failed to initialize server:", initResponse.error);
+          this.log.warn("💡 Server may need environment variables. Check your .env file");
+          return false;
+        }
+        this.serverInitialized = true;
+        this.serverCapabilities = this.capabilitiesOf(initResponse);
+        this.log.info("✅ Server initialized successfully");
+      }
+
+      if (this.clientInitialized && !this.initializedNotified) {
+        await this.sendNotification("notifications/initialized");
+        this.initializedNotified = true;
+      }
+
+      if (this.loggingParams) {
+        const response = await this.sendRequest("logging/setLevel", this.loggingParams);
+        if (response.error) {
+          this.log.warn("⚠️  Failed to restore logging level:", response.error.message);
+        }
+      }
+
+      for (const uri of this.resourceSubscriptions) {
+        const response = await this.sendRequest("resources/subscribe", { uri });
+        if (response.error) {
+          this.log.warn(`⚠️  Failed to restore subscription to ${uri}:`, response.error.message);
+        }
+      }
+
+      if (this.rootsListChanged) {
+        await this.sendNotification("notifications/roots/list_changed");
+      }
+
+      if (this.resourceSubscriptions.size > 0 || this.loggingParams) {
+        this.log.info(
+          `📋 Restored session state (${this.resourceSubscriptions.size} subscriptions${
+            this.loggingParams ? ", logging level" : ""
+          })`
+        );
+      }
+      return true;
+    } catch (error) {
+      this.log.error("❌ Error replaying session state:", error);
+      return false;
+    }
+  }
+
+  private async killServer() {
+    if (!this.managedProcess || !this.serverPid) return;
+
+    this.log.debug(`🛑 Killing server process ${this.serverPid}...`);
+
+    try {
+      // First try SIGTERM
+      this.stoppedProcesses.add(this.managedProcess);
+      this.managedProcess.kill("SIGTERM");
+
+      // Wait up to 5 seconds for graceful shutdown
+      this.killTimeout = setTimeout(() => {
+        this.log.warn("⚠️  Server didn't exit gracefully, sending SIGKILL...");
+        this.managedProcess?.kill("SIGKILL");
+      }, 5000);
+      this.killTimeout.unref();
+
+      await this.managedProcess.status;
+      clearTimeout(this.killTimeout);
+      this.killTimeout = undefined;
+
+      // Verify process is actually dead
+      await this.verifyProcessKilled(this.serverPid);
+
+      this.log.debug(`✅ Server process ${this.serverPid} terminated`);
+    } catch (error) {
+      this.log.error(`❌ Error killing server: ${error}`);
+    }
+
+    this.managedProcess = null;
+    this.serverStdin = null;
+    this.serverPid = null;
+  }
+
+  private async verifyProcessKilled(pid: number) {
+    // Try to check if process still exists
+    try {
+      // On Unix systems, sending signal 0 checks if process exists
+      process.kill(pid, 0);
+      // If we get here, process still exists
+      this.log.warn(`⚠️  Process ${pid} still running, forcing kill...`);
+      process.kill(pid, "SIGKILL");
+    } catch {
+      // Process doesn't exist, which is what we want
     }
   }
 
@@ -396,126 +1662,610 @@ export class MCPProxy {
 
     (async () => {
       const reader = this.stdin.getReader();
+      const framer = new LineFramer();
       const decoder = new TextDecoder();
-      let buffer = "";
 
       try {
         while (true) {
           const { done, value } = await reader.read();
           if (done) break;
 
-          buffer += decoder.decode(value, { stream: true });
-
-          // Parse complete JSON-RPC messages
-          const lines = buffer.split("\n");
-          buffer = lines.pop() || "";
-
-          for (const line of lines) {
-            if (line.trim()) {
+          // Parse complete JSON-RPC messages. Every client message is inspected: it may shape
+          // session state, be buffered during a restart or be re-sent after one.
+          for (const line of framer.push(value)) {
+            const text = decoder.decode(line);
+            if (text.trim()) {
               try {
-                const message: Message = JSON.parse(line);
-
-                // Capture initialize params for replay
-                if (message.method === "initialize") {
-                  this.initializeParams = message.params;
-                  console.error("📋 Captured initialize params for replay");
+                const message: Message = JSON.parse(text);
+                this.clientMessages++;
+                this.emit("message:client", { message });
+
+                // mcpmon's resources and prompts are served by the proxy itself, even mid-restart
+                const answer = this.mcpmonAnswer(message);
+
+                // During restart, buffer all messages - except, while draining, the traffic that
+                // lets in-flight requests complete (responses to server requests, cancellations)
+                const completesInflight =
+                  message.method === undefined || message.method === "notifications/cancelled";
+                const buffered =
+                  !answer && this.restarting && !(this.draining && completesInflight);
+                this.recordTranscript("in", this.serverGeneration, this.serverPid, message, {
+                  buffered,
+                  proxy: !!answer,
+                });
+
+                if (answer) {
+                  await answer();
+                  continue;
                 }
 
-                // During restart, buffer all messages
-                if (this.restarting) {
+                // Capture session state (initialize, subscriptions, ...) for replay
+                this.recordSessionMessage(message);
+
+                if (buffered) {
                   this.messageBuffer.push(message);
-                  console.error(
+                  this.log.debug(
                     `📦 Buffered message during restart: ${
                       message.method || `response ${message.id}`
                     }`
                   );
-                } else if (this.managedProcess) {
+                } else if (this.serverStdin) {
                   // Forward to server
-                  const writer = this.managedProcess.stdin.getWriter();
-                  await writer.write(new TextEncoder().encode(line + "\n"));
-                  writer.releaseLock();
+                  this.trackRequest(message);
+                  await this.serverStdin.write(line);
+                } else if (this.crashState === "broken") {
+                  // No server until the next file change - fail fast instead of hanging
+                  await this.failCrashLooping(message);
                 }
               } catch (e) {
-                console.error("Failed to parse message:", e);
+                this.log.warn("Failed to parse message:", e);
               }
             }
           }
         }
       } catch (error) {
-        console.error("Stdin forwarding error:", error);
+        this.log.error("Stdin forwarding error:", error);
       }
     })();
   }
 
-  private setupOutputForwarding() {
-    if (!this.managedProcess) return;
-
+  private setupOutputForwarding(process: ManagedProcess, generation: number) {
     // Forward stdout
     (async () => {
-      const reader = this.managedProcess!.stdout.getReader();
-      const decoder = new TextDecoder();
-      let buffer = "";
+      const reader = process.stdout.getReader();
+      const framer = new LineFramer();
 
       try {
         while (true) {
           const { done, value } = await reader.read();
           if (done) break;
 
-          // During restart, we still forward output to maintain connection
-          const text = decoder.decode(value, { stream: true });
-          const writer = this.stdout.getWriter();
-          await writer.write(value);
-          writer.releaseLock();
+          for (const line of framer.push(value)) {
+            // Only the envelope is read here; lines are forwarded byte-for-byte
+            const envelope = peekEnvelope(line);
 
-          // Also parse messages to handle responses
-          buffer += text;
-          const lines = buffer.split("\n");
-          buffer = lines.pop() || "";
+            // Responses to the proxy's own requests are consumed here, never forwarded
+            if (envelope && this.handleInternalResponse(line, envelope)) {
+              continue;
+            }
 
-          for (const line of lines) {
-            if (line.trim()) {
-              try {
-                const message: Message = JSON.parse(line);
-                if (message.id && this.pendingRequests.has(message.id)) {
-                  const pending = this.pendingRequests.get(message.id)!;
-                  clearTimeout(pending.timeoutId);
-                  this.pendingRequests.delete(message.id);
-                  pending.resolve(message);
-                }
-              } catch {
-                // Not JSON, ignore
-              }
+            // A blue/green candidate is not talking to the client until it is promoted
+            if (generation > this.serverGeneration) {
+              continue;
+            }
+
+            if (this.config.strictStdout && !isJsonRpcLine(line, envelope)) {
+              await this.quarantineStdout(line);
+              continue;
+            }
+
+            // Requests already failed or re-sent when this server died must not be answered twice
+            let merged: Message | null = null;
+            if (envelope) {
+              const request = this.settleInflightRequest(envelope, line, generation);
+              if (request === false) continue;
+              if (request) merged = this.mergeMcpmonEntries(request, line);
+            }
+
+            // During restart, we still forward output to maintain connection
+            this.serverMessages++;
+            if (this.transcript || this.events.hasListeners("message:server")) {
+              const message = merged ?? parseLine<Message>(line);
+              if (message) this.emit("message:server", { generation, message });
+              this.recordTranscript(
+                "out",
+                generation,
+                process.pid ?? null,
+                message ?? new TextDecoder().decode(line).trimEnd()
+              );
             }
+            await (merged ? this.stdout.writeMessage(merged) : this.stdout.write(line));
           }
         }
       } catch (error) {
         if (!this.restarting) {
-          console.error("Stdout forwarding error:", error);
+          this.log.error("Stdout forwarding error:", error);
         }
       }
     })();
 
     // Forward stderr
     (async () => {
-      const reader = this.managedProcess!.stderr.getReader();
+      const reader = process.stderr.getReader();
+      const decoder = new TextDecoder();
+      let partialLine = "";
       try {
         while (true) {
           const { done, value } = await reader.read();
           if (done) break;
-          const writer = this.stderr.getWriter();
-          await writer.write(value);
-          writer.releaseLock();
+          const text = decoder.decode(value, { stream: true });
+          if (generation === this.serverGeneration && this.readyPattern && !this.stderrReadySeen) {
+            this.checkStderrReady(text);
+          }
+          const lines = (partialLine + text).split("\n");
+          partialLine = lines.pop()!;
+          this.recordServerLog(lines, process.pid);
+          await this.stderr.write(value);
         }
+        // A last line without a newline is still part of the server's log
+        this.recordServerLog([partialLine + decoder.decode()], process.pid);
       } catch (error) {
         if (!this.restarting) {
-          console.error("Stderr forwarding error:", error);
+          this.log.error("Stderr forwarding error:", error);
         }
       }
     })();
   }
 
-  private sendRequest(method: string, params?: unknown): Promise<Message> {
-    const id = this.currentRequestId++;
+  /**
+   * Keep complete stderr lines for getRecentLogs and mcpmon://logs/server/{pid}, and copy them
+   * to the log sink's server channel
+   */
+  private recordServerLog(lines: string[], pid?: number) {
+    for (const line of lines) {
+      const text = line.trimEnd();
+      if (!text) continue;
+      this.serverLog.append(text, pid);
+      this.logSink?.server(text, pid);
+    }
+  }
+
+  /**
+   * Log through the injected logger and keep every line, whatever its level, for
+   * mcpmon://logs/proxy and the log sink's proxy channel
+   */
+  private recordingLogger(logger: Logger): Logger {
+    const record =
+      (level: LogLevel) =>
+      (...args: unknown[]) => {
+        logger[level](...args);
+        const text = format(...args).trim();
+        if (!text) return;
+        this.proxyLog.append(text);
+        this.logSink?.proxy(level, text);
+      };
+    return {
+      error: record("error"),
+      warn: record("warn"),
+      info: record("info"),
+      debug: record("debug"),
+      trace: record("trace"),
+    };
+  }
+
+  /**
+   * Redirect a non-JSON-RPC server stdout line to stderr instead of corrupting the client stream
+   */
+  private async quarantineStdout(line: Uint8Array) {
+    const text = new TextDecoder().decode(line).trimEnd();
+    if (!text) return; // Blank lines carry nothing worth reporting
+
+    this.stdoutNoiseCount++;
+    if (this.stdoutNoiseCount === 1) {
+      this.log.warn(
+        "⚠️  Server wrote non-JSON-RPC output to stdout; redirecting it to stderr (log to stderr instead)"
+      );
+    }
+    const preview = text.length > 1000 ? `${text.slice(0, 1000)}... (${text.length} chars)` : text;
+    try {
+      await this.stderr.writeLine(`[stdout-noise #${this.stdoutNoiseCount}] ${preview}`);
+    } catch (error) {
+      this.log.error("Stderr forwarding error:", error);
+    }
+  }
+
+  /**
+   * Match server stderr against readyPattern. Keeps a bounded tail so a ready message
+   * split across chunks is still recognised.
+   */
+  private checkStderrReady(text: string) {
+    this.stderrTail = (this.stderrTail + text).slice(-4096);
+    if (this.readyPattern!.test(this.stderrTail)) {
+      this.stderrReadySeen = true;
+      this.stderrTail = "";
+      this.onStderrReady?.();
+    }
+  }
+
+  /**
+   * Wait until the freshly started server signals readiness.
+   *
+   * Without readyProbe/readyPattern this is the legacy fixed readyDelay sleep. Otherwise the wait
+   * ends as soon as the probe is answered or the stderr pattern matches, with readyDelay as timeout.
+   */
+  private async waitForReady(): Promise<void> {
+    const timeoutMs = this.config.readyDelay || 2000;
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<string | null>((resolve) => {
+      timer = setTimeout(() => resolve(null), timeoutMs);
+      timer.unref();
+    });
+
+    if (!this.config.readyProbe && !this.readyPattern) {
+      await timeout;
+      return;
+    }
+
+    const startTime = Date.now();
+    const signals: Promise<string | null>[] = [timeout];
+
+    if (this.readyPattern) {
+      signals.push(
+        new Promise((resolve) => {
+          if (this.stderrReadySeen) {
+            resolve("stderr pattern");
+          } else {
+            this.onStderrReady = () => resolve("stderr pattern");
+          }
+        })
+      );
+    }
+
+    if (this.config.readyProbe) {
+      // A failed probe (server gone, no answer) just leaves the other signals to decide
+      signals.push(
+        this.probeServer(timeoutMs).then((reason) => reason ?? new Promise<never>(() => {}))
+      );
+    }
+
+    const reason = await Promise.race(signals);
+    clearTimeout(timer);
+    this.onStderrReady = undefined;
+
+    if (reason) {
+      this.log.info(`✅ Server ready after ${Date.now() - startTime}ms (${reason})`);
+    } else {
+      this.log.warn(`⚠️  Server did not signal readiness within ${timeoutMs}ms, continuing`);
+    }
+  }
+
+  /**
+   * Send the configured readiness probe. Any response - even a JSON-RPC error - proves the
+   * server is reading stdin. Returns a description of the signal, or null if none arrived.
+   */
+  private async probeServer(timeoutMs: number): Promise<string | null> {
+    const useInitialize = this.config.readyProbe === "initialize" && this.initializeParams;
+    const method = useInitialize ? "initialize" : "ping";
+    let response: Message;
+    try {
+      response = await this.sendRequest(
+        method,
+        useInitialize ? this.initializeParams : undefined,
+        timeoutMs
+      );
+    } catch {
+      return null; // proxy shutting down
+    }
+
+    if (response.error?.data === NO_RESPONSE) {
+      return null;
+    }
+
+    if (useInitialize && response.result) {
+      this.serverInitialized = true;
+      this.serverCapabilities = this.capabilitiesOf(response);
+    }
+    return `${method} probe`;
+  }
+
+  /**
+   * Resolve a pending proxy request if the line is a response to one.
+   * Returns true when the line belongs to the proxy's id namespace and must not reach the client,
+   * including late responses to requests that already timed out.
+   */
+  private handleInternalResponse(line: Uint8Array, envelope: Envelope): boolean {
+    if (!isInternalId(envelope.id) || envelope.hasMethod) {
+      return false;
+    }
+
+    const pending = this.pendingRequests.get(envelope.id);
+    const message = pending && parseLine<Message>(line);
+    if (pending && message) {
+      clearTimeout(pending.timeoutId);
+      this.pendingRequests.delete(envelope.id);
+      pending.resolve(message);
+    }
+    return true;
+  }
+
+  /**
+   * Clear a client request from the in-flight table when the server answers it.
+   * Returns the request answered, or null for other lines to forward. Returns false if the
+   * response comes from a server generation whose requests were already abandoned, in which
+   * case it must not be forwarded.
+   */
+  private settleInflightRequest(
+    envelope: Envelope,
+    line: Uint8Array,
+    generation: number
+  ): Message | null | false {
+    if (envelope.id === undefined || envelope.hasMethod) {
+      return null;
+    }
+
+    const request = envelope.id === null ? undefined : this.inflightRequests.get(envelope.id);
+    if (request && request.generation === generation) {
+      this.completeInflightRequest(request.message.id!);
+      this.observeResponse(request.message, line);
+      pushBounded(
+        this.history.requests,
+        {
+          time: Date.now(),
+          method: request.message.method!,
+          durationMs: Date.now() - request.sentAt,
+        },
+        MAX_REQUEST_TIMINGS
+      );
+      return request.message;
+    }
+    return generation === this.serverGeneration ? null : false;
+  }
+
+  /**
+   * Find how the proxy answers a client request for an mcpmon:// resource, an mcpmon prompt or
+   * a control tool instead of forwarding it
+   *
+   * @returns A function sending the answer, or null if the request is for the server
+   */
+  private mcpmonAnswer(message: Message): (() => Promise<void>) | null {
+    const params = (message.params ?? {}) as { uri?: unknown; name?: unknown; arguments?: unknown };
+    if (message.id === undefined) return null;
+    const id = message.id;
+
+    if (message.method === "resources/read" && isMcpmonUri(params.uri)) {
+      const uri = params.uri;
+      return () =>
+        this.answerMcpmonRequest(id, { uri }, () => readMcpmonResource(uri, this.resourceSource()));
+    }
+
+    // mcpmon resources never send update notifications, so there is nothing to subscribe to
+    if (
+      (message.method === "resources/subscribe" || message.method === "resources/unsubscribe") &&
+      isMcpmonUri(params.uri)
+    ) {
+      return () => this.writeToClient({ jsonrpc: "2.0", id, result: {} });
+    }
+
+    // A restart takes a while, so the answer is sent without holding up the client's messages
+    const prefix = this.config.controlToolPrefix ?? DEFAULT_TOOL_PREFIX;
+    if (
+      message.method === "tools/call" &&
+      this.config.controlTools &&
+      isControlTool(params.name, prefix)
+    ) {
+      const name = params.name;
+      const args = params.arguments as Record<string, unknown> | undefined;
+      return async () => {
+        this.answerMcpmonRequest(id, { name }, () =>
+          callControlTool(this, name, args, prefix)
+        ).catch(() => {}); // Only fails if the client is gone
+      };
+    }
+
+    // mcpmon's prompts shadow server prompts of the same name
+    if (message.method === "prompts/get" && isMcpmonPrompt(params.name)) {
+      const name = params.name;
+      return () =>
+        this.answerMcpmonRequest(id, { name }, () =>
+          getMcpmonPrompt(name, params.arguments as Record<string, string>, this.resourceSource())
+        );
+    }
+    return null;
+  }
+
+  /**
+   * Send the client the result of a request the proxy answers itself, or the error it threw
+   */
+  private async answerMcpmonRequest(id: MessageId, data: unknown, produce: () => unknown) {
+    try {
+      await this.writeToClient({ jsonrpc: "2.0", id, result: await produce() });
+    } catch (error) {
+      const code =
+        error instanceof ResourceError || error instanceof PromptError ? error.code : -32603;
+      await this.writeToClient({
+        jsonrpc: "2.0",
+        id,
+        error: { code, message: (error as Error).message, data },
+      });
+    }
+  }
+
+  /**
+   * Add mcpmon's own entries to a server response: the capabilities to initialize, and
+   * mcpmon's resources, resource templates, prompts and (with controlTools) tools to the first
+   * page of the matching list. A server without them gets a list of only mcpmon's instead of
+   * "method not found". Runs after observeResponse, so snapshots and capabilities stay the
+   * server's own.
+   *
+   * @returns The rewritten response, or null to forward the line unchanged
+   */
+  private mergeMcpmonEntries(request: Message, line: Uint8Array): Message | null {
+    const merge = this.mcpmonEntries(request.method);
+    if (request.method !== "initialize" && !merge) return null;
+    if ((request.params as { cursor?: string } | undefined)?.cursor) return null;
+
+    const response = parseLine<Message>(line);
+    if (!response) return null;
+
+    if (!merge) {
+      const result = response.result as { capabilities?: Record<string, unknown> } | undefined;
+      const added: Record<string, unknown> = { resources: {}, prompts: {} };
+      if (this.config.controlTools) added.tools = {};
+      if (!result || Object.keys(added).every((key) => result.capabilities?.[key])) return null;
+      result.capabilities = { ...added, ...result.capabilities };
+      return response;
+    }
+
+    const { field, entries, shadows } = merge;
+    if (response.error) {
+      if (response.error.code !== METHOD_NOT_FOUND) return null;
+      return { jsonrpc: "2.0", id: response.id, result: { [field]: entries } };
+    }
+    const result = response.result as Record<string, unknown> | undefined;
+    if (!result) return null;
+    const own = Array.isArray(result[field]) ? (result[field] as Array<{ name?: unknown }>) : [];
+    result[field] = [...own.filter((item) => !shadows?.(item.name)), ...entries];
+    return response;
+  }
+
+  /**
+   * mcpmon's entries for a list method: the result field, the entries, and which of the
+   * server's entries they hide
+   */
+  private mcpmonEntries(
+    method: string | undefined
+  ): { field: string; entries: unknown[]; shadows?: (name: unknown) => boolean } | null {
+    const prefix = this.config.controlToolPrefix ?? DEFAULT_TOOL_PREFIX;
+    switch (method) {
+      case "resources/list":
+        return { field: "resources", entries: listMcpmonResources(this.serverPid) };
+      case "resources/templates/list":
+        return { field: "resourceTemplates", entries: MCPMON_RESOURCE_TEMPLATES };
+      case "prompts/list":
+        return { field: "prompts", entries: MCPMON_PROMPTS, shadows: isMcpmonPrompt };
+      case "tools/list":
+        if (!this.config.controlTools) return null;
+        return {
+          field: "tools",
+          entries: listControlTools(prefix),
+          shadows: (name) => isControlTool(name, prefix),
+        };
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * The proxy state behind the mcpmon:// resources
+   */
+  private resourceSource(): ResourceSource {
+    return {
+      proxyLog: this.proxyLog,
+      serverLog: this.serverLog,
+      serverPid: this.serverPid,
+      getConfig: () => this.config,
+      getStats: () => ({
+        proxy: { startedAt: this.proxyStartedAt, uptimeMs: Date.now() - this.proxyStartedAt },
+        server: {
+          pid: this.serverPid,
+          running: this.isRunning(),
+          restarting: this.restarting,
+          generation: this.serverGeneration,
+          startedAt: this.managedProcess ? this.serverStartedAt : null,
+          uptimeMs: this.managedProcess ? Date.now() - this.serverStartedAt : null,
+        },
+        restarts: this.restartCount,
+        crashes: this.crashCount,
+        crashLoop: this.getCrashLoopState(),
+        recentRestarts: this.history.restarts,
+        recentExits: this.history.exits,
+        messages: {
+          fromClient: this.clientMessages,
+          fromServer: this.serverMessages,
+          inflight: this.inflightRequests.size,
+          buffered: this.messageBuffer.length,
+        },
+      }),
+      getStatus: () => this.getStatus(),
+      getHistory: () => this.history,
+      getFileWatch: () => ({
+        targets: this.config.watchTargets ?? [],
+        paused: this.watchPaused,
+        changedWhilePaused: this.changedWhilePaused,
+        lastTriggerAt: this.lastTriggerAt,
+        recentEvents: this.watchEvents,
+      }),
+    };
+  }
+
+  /**
+   * Learn from responses the client receives: the negotiated capabilities and the lists the
+   * client has seen, which become the baseline for change detection after the next restart.
+   * Only these responses are parsed; everything else passes through untouched.
+   */
+  private observeResponse(request: Message, line: Uint8Array) {
+    const kind = LIST_KINDS.find((k) => k.method === request.method);
+    if (request.method !== "initialize" && !kind) return;
+
+    const response = parseLine<Message>(line);
+    if (!response?.result) return;
+
+    if (request.method === "initialize") {
+      this.sessionCapabilities = this.capabilitiesOf(response);
+      return;
+    }
+
+    const result = response.result as Record<string, unknown>;
+    const cursor = (request.params as { cursor?: string } | undefined)?.cursor;
+    // Only complete, unpaginated lists make a reliable baseline
+    if (kind && !cursor && !result.nextCursor && Array.isArray(result[kind.field])) {
+      this.listSnapshots.set(kind.method, result[kind.field] as unknown[]);
+    }
+  }
+
+  private capabilitiesOf(response: Message): Record<string, any> | null {
+    return (response.result as { capabilities?: Record<string, any> })?.capabilities || null;
+  }
+
+  /**
+   * Write a proxy-generated message to the client
+   */
+  private async writeToClient(message: Message) {
+    this.recordTranscript("out", this.serverGeneration, this.serverPid, message, { proxy: true });
+    await this.stdout.writeMessage(message);
+  }
+
+  /**
+   * Add a message that crossed the proxy to the session transcript, if one is being recorded.
+   * Server output that is not JSON is recorded as raw text.
+   */
+  private recordTranscript(
+    direction: "in" | "out",
+    generation: number,
+    pid: number | null,
+    message: Message | string,
+    flags: { buffered?: boolean; proxy?: boolean } = {}
+  ) {
+    if (!this.transcript) return;
+    this.transcript.write({
+      time: new Date().toISOString(),
+      type: "message",
+      direction,
+      generation,
+      pid,
+      ...(flags.buffered && { buffered: true }),
+      ...(flags.proxy && { proxy: true }),
+      ...(typeof message === "string" ? { raw: message } : { message }),
+    });
+  }
+
+  private sendRequest(
+    method: string,
+    params?: unknown,
+    timeoutMs = 5000,
+    stdin = this.serverStdin
+  ): Promise<Message> {
+    const id = `${INTERNAL_ID_PREFIX}${this.currentRequestId++}`;
     const request: Message = {
       jsonrpc: "2.0",
       id,
@@ -527,80 +2277,153 @@ export class MCPProxy {
       const timeoutId = setTimeout(() => {
         if (this.pendingRequests.has(id)) {
           this.pendingRequests.delete(id);
-          resolve({ jsonrpc: "2.0", id, error: { code: -32603, message: "Request timeout" } });
+          resolve(noResponse(id, "Request timeout"));
         }
-      }, 5000);
+      }, timeoutMs);
       timeoutId.unref();
 
-      this.pendingRequests.set(id, { resolve, reject, timeoutId });
-
-      if (this.managedProcess) {
-        const writer = this.managedProcess.stdin.getWriter();
-        writer
-          .write(new TextEncoder().encode(JSON.stringify(request) + "\n"))
-          .then(() => writer.releaseLock())
-          .catch((error) => {
-            const pending = this.pendingRequests.get(id);
-            if (pending) {
-              clearTimeout(pending.timeoutId);
-              this.pendingRequests.delete(id);
-              resolve({ jsonrpc: "2.0", id, error: { code: -32603, message: error.toString() } });
-            }
-          });
+      this.pendingRequests.set(id, { resolve, reject, timeoutId, stdin });
+
+      if (stdin) {
+        stdin.writeMessage(request).catch((error) => {
+          const pending = this.pendingRequests.get(id);
+          if (pending) {
+            clearTimeout(pending.timeoutId);
+            this.pendingRequests.delete(id);
+            resolve(noResponse(id, error.toString()));
+          }
+        });
       } else {
         const pending = this.pendingRequests.get(id);
         if (pending) {
           clearTimeout(pending.timeoutId);
           this.pendingRequests.delete(id);
-          resolve({ jsonrpc: "2.0", id, error: { code: -32603, message: "Server not running" } });
+          resolve(noResponse(id, "Server not running"));
         }
       }
     });
   }
 
-  private async getToolsList(): Promise<unknown[]> {
-    if (!this.managedProcess) return [];
+  /**
+   * Answer the proxy's own requests to a server that has gone away, so whatever waits on them -
+   * a restart refreshing lists, a health check - does not wait out the timeout
+   */
+  private settlePendingRequests(stdin: WriteQueue | null, message: string) {
+    if (!stdin) return;
+    for (const [id, pending] of this.pendingRequests) {
+      if (pending.stdin !== stdin) continue;
+      clearTimeout(pending.timeoutId);
+      this.pendingRequests.delete(id);
+      pending.resolve(noResponse(id, message));
+    }
+  }
+
+  private async sendNotification(method: string, params?: unknown, stdin = this.serverStdin) {
+    if (!stdin) return;
 
+    const notification: Message = { jsonrpc: "2.0", method, params };
     try {
-      console.error("🔧 Fetching tools list from server...");
+      await stdin.writeMessage(notification);
+    } catch (error) {
+      this.log.error(`❌ Failed to send ${method}:`, error);
+    }
+  }
 
-      // First ensure server is initialized
-      if (this.initializeParams) {
-        console.error("📤 Sending initialize request to new server...");
-        const initResponse = await this.sendRequest("initialize", this.initializeParams);
-        if (initResponse.error) {
-          console.error("❌ Failed to initialize server:", initResponse.error);
-          console.error("💡 Server may need environment variables. Check your .env file");
-          return [];
-        }
-        console.error("✅ Server initialized successfully");
+  /**
+   * Fetch every list the new server supports, diff each against the previous generation, report
+   * the diff and send only the list_changed notifications whose lists actually changed - and only
+   * for features the client negotiated listChanged for.
+   */
+  private async refreshLists() {
+    if (!this.managedProcess) return;
+
+    this.log.debug("🔧 Fetching tools, resources and prompts from server...");
+    const diffs: Partial<Record<ListKind["field"], ListDiff | null>> = {};
+    const notifications = new Set<string>();
+    const lists = await Promise.all(LIST_KINDS.map((kind) => this.fetchList(kind)));
+    for (const [index, kind] of LIST_KINDS.entries()) {
+      const current = lists[index];
+      const previous = this.listSnapshots.get(kind.method);
+      if (current === null || (previous === undefined && current.length > 0)) {
+        diffs[kind.field] = null; // nothing to compare - never guess a change
+        if (current === null) continue;
       } else {
-        console.error("⚠️  No initialize params captured from original connection");
+        diffs[kind.field] = diffLists(kind.field, previous || [], current);
       }
 
-      // Get tools list
-      console.error("📋 Requesting tools list...");
-      const response = await this.sendRequest("tools/list", {});
+      this.listSnapshots.set(kind.method, current);
+      const diff = diffs[kind.field];
+      if (diff && isEmptyDiff(diff)) continue;
 
-      if (response.error) {
-        console.error("❌ Failed to get tools list:", response.error);
-        return [];
+      if (this.sessionCapabilities && !this.sessionCapabilities[kind.capability]?.listChanged) {
+        this.log.debug(`ℹ️  ${kind.field} changed, but client did not negotiate listChanged`);
+        continue;
       }
+      notifications.add(kind.notification);
+    }
 
-      const tools = (response.result as { tools?: unknown[] })?.tools || [];
-      console.error(`✅ Found ${tools.length} tools`);
+    this.lastDiff = {
+      generation: this.serverGeneration,
+      timestamp: Date.now(),
+      tools: diffs.tools ?? null,
+      resources: diffs.resources ?? null,
+      resourceTemplates: diffs.resourceTemplates ?? null,
+      prompts: diffs.prompts ?? null,
+    };
+    this.log.info(formatReloadDiff(this.lastDiff));
+    if (diffs.tools && !isEmptyDiff(diffs.tools)) {
+      this.emit("tools:changed", { generation: this.serverGeneration, diff: diffs.tools });
+    }
 
-      // Log tool names for debugging
-      if (tools.length > 0) {
-        const toolNames = tools.map((t: unknown) => (t as { name: string }).name).join(", ");
-        console.error(`📦 Tools: ${toolNames}`);
+    for (const method of notifications) {
+      try {
+        await this.writeToClient({ jsonrpc: "2.0", method });
+        this.log.debug(`📢 Sent ${method}`);
+      } catch (error) {
+        this.log.error("❌ Failed to send notification:", error);
       }
+    }
+  }
 
-      return tools;
-    } catch (error) {
-      console.error("❌ Error getting tools list:", error);
+  /**
+   * Fetch all pages of one list from the server.
+   * Returns [] when the server does not declare the capability, or null if the list is unknown.
+   */
+  private async fetchList(kind: ListKind): Promise<unknown[] | null> {
+    if (this.serverCapabilities && !(kind.capability in this.serverCapabilities)) {
       return [];
     }
+
+    const items: unknown[] = [];
+    let cursor: string | undefined;
+    for (let page = 0; page < MAX_LIST_PAGES; page++) {
+      let response: Message;
+      try {
+        response = await this.sendRequest(kind.method, cursor ? { cursor } : {});
+      } catch (error) {
+        this.log.error(`❌ Error getting ${kind.method}:`, error);
+        return null;
+      }
+      if (response.error) {
+        // Without known capabilities an error usually means "not supported"
+        if (this.serverCapabilities) {
+          this.log.error(`❌ Failed to get ${kind.method}:`, response.error.message);
+        }
+        return null;
+      }
+
+      const result = (response.result || {}) as Record<string, unknown>;
+      items.push(...((result[kind.field] as unknown[]) || []));
+      cursor = result.nextCursor as string | undefined;
+      if (!cursor) break;
+    }
+
+    this.log.debug(`✅ Found ${items.length} ${kind.field}`);
+    if (kind.method === "tools/list" && items.length > 0) {
+      const toolNames = items.map((t: unknown) => (t as { name: string }).name).join(", ");
+      this.log.debug(`📦 Tools: ${toolNames}`);
+    }
+    return items;
   }
 
   readonly restart: DebouncedFunction<() => Promise<void>>;
@@ -615,12 +2438,12 @@ export class MCPProxy {
           await this.changeSource.readFile(target);
         } catch (error) {
           // Log warning but continue - some targets might not be files (e.g., packages)
-          console.error(`⚠️  Could not verify target: ${target} (${error})`);
+          this.log.warn(`⚠️  Could not verify target: ${target} (${error})`);
         }
       }
 
       const targets = this.config.watchTargets.join(", ");
-      console.error(`✅ Watching ${targets} for changes`);
+      this.log.info(`✅ Watching ${targets} for changes`);
 
       this.fileWatcher = this.changeSource.watch(this.config.watchTargets);
       for await (const event of this.fileWatcher) {
@@ -630,17 +2453,44 @@ export class MCPProxy {
         }
         // Handle both old FileEvent types and new ChangeEvent types
         if (["modify", "remove", "version_update", "dependency_change"].includes(event.type)) {
-          console.error(`📝 ${event.type}: ${event.path}`);
-          this.restart();
+          // Build commands usually write the watched output themselves
+          if (this.buildProcess) {
+            this.log.info(`📝 ${event.type}: ${event.path} (during build, ignored)`);
+            this.recordWatchEvent(event, "ignored (build running)");
+            this.emit("change", { changeType: event.type, path: event.path, action: "ignored" });
+            continue;
+          }
+          if (this.watchPaused) {
+            this.log.info(`📝 ${event.type}: ${event.path} (watching paused)`);
+            this.recordWatchEvent(event, "deferred (watching paused)");
+            this.emit("change", { changeType: event.type, path: event.path, action: "deferred" });
+            this.changedWhilePaused = true;
+            continue;
+          }
+          this.log.info(`📝 ${event.type}: ${event.path}`);
+          this.recordWatchEvent(event, "restart");
+          this.emit("change", { changeType: event.type, path: event.path, action: "restart" });
+          this.lastTriggerAt = Date.now();
+          this.scheduleChangeRestart();
         }
       }
     } catch (error) {
-      console.error(`❌ Failed to watch file: ${error}`);
+      this.log.error(`❌ Failed to watch file: ${error}`);
+    }
+  }
+
+  /**
+   * Keep a file event for mcpmon://file-watch, dropping the oldest beyond MAX_WATCH_EVENTS
+   */
+  private recordWatchEvent(event: ChangeEvent, action: string) {
+    this.watchEvents.push({ time: Date.now(), type: event.type, path: event.path, action });
+    if (this.watchEvents.length > MAX_WATCH_EVENTS) {
+      this.watchEvents.splice(0, this.watchEvents.length - MAX_WATCH_EVENTS);
     }
   }
 
   async shutdown() {
-    console.error("\n🛑 Shutting down proxy...");
+    this.log.info("\n🛑 Shutting down proxy...");
     this.restarting = true;
     this.shutdownRequested = true;
 
@@ -656,6 +2506,14 @@ export class MCPProxy {
       clearTimeout(this.errorRetryTimeout);
       this.errorRetryTimeout = undefined;
     }
+    this.cancelBackoff?.();
+    clearTimeout(this.recoveryTimeout);
+    clearTimeout(this.healthCheckTimer);
+    if (this.candidateProcess) {
+      this.stoppedProcesses.add(this.candidateProcess);
+      this.candidateProcess.kill("SIGKILL");
+    }
+    this.buildProcess?.kill("SIGKILL");
 
     // Clear all pending request timeouts
     for (const [id, request] of this.pendingRequests) {
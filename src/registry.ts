@@ -0,0 +1,369 @@
+/**
+ * Registry of running mcpmon instances
+ *
+ * MCP clients launch mcpmon themselves, so its PID and output are normally out of reach. Every
+ * instance writes an entry to a per-user runtime directory; the ps, restart, logs and stop
+ * subcommands read them back. Entries of processes that no longer exist - or whose PID now
+ * belongs to a different process - are removed on read.
+ */
+
+import { spawnSync } from "child_process";
+import { lstatSync, mkdirSync, readdirSync, readFileSync, unlinkSync, writeFileSync } from "fs";
+import { tmpdir, userInfo } from "os";
+import { join } from "path";
+import { isSocketAlive, sendControlRequest } from "./control.js";
+
+/**
+ * What a running mcpmon records about itself
+ */
+export interface InstanceEntry {
+  pid: number;
+  /** Server name, from --name or the entry file */
+  name: string;
+  command: string;
+  args: string[];
+  watchTargets: string[];
+  /** Working directory mcpmon was started in */
+  cwd: string;
+  /** Start time in ms since epoch */
+  startedAt: number;
+  /** Control socket path, or null if the instance has none */
+  controlSocket: string | null;
+  /** processStartTime of the mcpmon process, to tell it from a later process with its PID */
+  processStart: string | null;
+}
+
+/**
+ * Default per-user runtime directory: $MCPMON_RUNTIME_DIR, $XDG_RUNTIME_DIR/mcpmon, or
+ * mcpmon-<uid> in the OS temp directory
+ */
+export function defaultRuntimeDir(): string {
+  if (process.env.MCPMON_RUNTIME_DIR) return process.env.MCPMON_RUNTIME_DIR;
+  if (process.env.XDG_RUNTIME_DIR) return join(process.env.XDG_RUNTIME_DIR, "mcpmon");
+  let user = "user";
+  try {
+    const { uid, username } = userInfo();
+    user = uid >= 0 ? String(uid) : username; // uid is -1 on Windows
+  } catch {
+    // No passwd entry for this uid
+  }
+  return join(tmpdir(), `mcpmon-${user}`);
+}
+
+/**
+ * Check whether a process of the current user exists. A process of another user (EPERM) is
+ * never a registered mcpmon, whose PID it must have taken over.
+ */
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * When a process started, as an opaque string that differs between two processes that had the
+ * same PID: the start time in clock ticks from /proc on Linux, `ps -o lstart=` elsewhere.
+ * null if it cannot be determined (Windows, or the process is gone).
+ */
+export function processStartTime(pid: number): string | null {
+  try {
+    const stat = readFileSync(`/proc/${pid}/stat`, "utf8");
+    // starttime is field 22; counting starts after the command name, which may contain spaces
+    return stat.slice(stat.lastIndexOf(")") + 2).split(" ")[19] ?? null;
+  } catch {
+    // No procfs
+  }
+  if (process.platform === "win32") return null;
+  const ps = spawnSync("ps", ["-o", "lstart=", "-p", String(pid)], { encoding: "utf8" });
+  return (ps.status === 0 && ps.stdout.trim()) || null;
+}
+
+/**
+ * Whether an entry's process is still the mcpmon that registered it, as far as can be told
+ * synchronously: alive, and started at the recorded time when both start times are known
+ */
+function isRegisteredProcess(entry: InstanceEntry): boolean {
+  if (!isAlive(entry.pid)) return false;
+  if (!entry.processStart) return true;
+  const start = processStartTime(entry.pid);
+  return start === null || start === entry.processStart;
+}
+
+export class InstanceRegistry {
+  constructor(readonly dir = defaultRuntimeDir()) {}
+
+  /**
+   * Create the runtime directory if needed and check that it is private to the current user.
+   * The default lives at a predictable path in the shared temp directory, where someone else
+   * could have created it first.
+   *
+   * @throws Error if the directory is not owned by the current user with mode 0700
+   */
+  ensureDir() {
+    mkdirSync(this.dir, { recursive: true, mode: 0o700 });
+    this.checkDir();
+  }
+
+  /**
+   * Record an instance and the start time of its process
+   */
+  register(entry: Omit<InstanceEntry, "processStart">) {
+    this.ensureDir();
+    const record: InstanceEntry = { ...entry, processStart: processStartTime(entry.pid) };
+    writeFileSync(this.entryPath(entry.pid), JSON.stringify(record, null, 2) + "\n", {
+      mode: 0o600,
+    });
+  }
+
+  /**
+   * Remove an instance's entry. Synchronous so it can run in an exit handler.
+   */
+  unregister(pid: number) {
+    try {
+      unlinkSync(this.entryPath(pid));
+    } catch {
+      // Already removed
+    }
+  }
+
+  /**
+   * List live instances, oldest first, deleting entries left behind by dead processes
+   */
+  list(): InstanceEntry[] {
+    let files: string[];
+    try {
+      files = readdirSync(this.dir).filter((file) => file.endsWith(".json"));
+    } catch {
+      return []; // No instance has registered yet
+    }
+    this.checkDir();
+
+    const entries: InstanceEntry[] = [];
+    for (const file of files) {
+      let entry: InstanceEntry;
+      try {
+        entry = JSON.parse(readFileSync(join(this.dir, file), "utf8"));
+      } catch {
+        continue; // Being written, or not ours
+      }
+      if (isRegisteredProcess(entry)) {
+        entries.push(entry);
+      } else {
+        this.remove(entry);
+      }
+    }
+    return entries.sort((a, b) => a.startedAt - b.startedAt);
+  }
+
+  /**
+   * Make sure an instance is still the mcpmon that registered, before signalling its PID. When
+   * start times cannot be compared, the instance must answer on its control socket instead.
+   * An instance that fails the check is stale and its entry is removed.
+   */
+  async confirm(entry: InstanceEntry): Promise<boolean> {
+    const start = entry.processStart && processStartTime(entry.pid);
+    const confirmed = start
+      ? start === entry.processStart && isAlive(entry.pid)
+      : !!entry.controlSocket && (await isSocketAlive(entry.controlSocket));
+    if (!confirmed) this.remove(entry);
+    return confirmed;
+  }
+
+  /**
+   * Find the instance with a PID or name
+   *
+   * @throws Error if nothing matches or a name matches several instances
+   */
+  find(target: string): InstanceEntry {
+    const instances = this.list();
+    const matches = /^\d+$/.test(target)
+      ? instances.filter((entry) => entry.pid === Number(target))
+      : instances.filter((entry) => entry.name === target);
+
+    if (matches.length === 0) {
+      throw new Error(`No running mcpmon instance "${target}" (see mcpmon ps)`);
+    }
+    if (matches.length > 1) {
+      const pids = matches.map((entry) => entry.pid).join(", ");
+      throw new Error(`"${target}" matches several instances (PIDs ${pids}); use a PID`);
+    }
+    return matches[0];
+  }
+
+  private entryPath(pid: number): string {
+    return join(this.dir, `${pid}.json`);
+  }
+
+  /**
+   * Remove a stale entry and the socket it left in the runtime directory
+   */
+  private remove(entry: InstanceEntry) {
+    this.unregister(entry.pid);
+    if (entry.controlSocket?.startsWith(this.dir)) {
+      try {
+        unlinkSync(entry.controlSocket);
+      } catch {
+        // Already removed
+      }
+    }
+  }
+
+  /**
+   * @throws Error if the runtime directory is a symlink, or not owned by and private to the
+   *   current user (ownership is not checked on Windows)
+   */
+  private checkDir() {
+    const stats = lstatSync(this.dir);
+    const uid = process.getuid?.();
+    if (
+      !stats.isDirectory() ||
+      (uid !== undefined && (stats.uid !== uid || (stats.mode & 0o077) !== 0))
+    ) {
+      throw new Error(
+        `Runtime directory ${this.dir} must be a directory owned by the current user with mode ` +
+          `0700; remove it or set MCPMON_RUNTIME_DIR`
+      );
+    }
+  }
+}
+
+/**
+ * Format a duration since a start time as e.g. "3d 4h", "2h 5m" or "41s"
+ */
+function formatSince(startedAt: number): string {
+  const seconds = Math.max(0, Math.floor((Date.now() - startedAt) / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+/**
+ * Format instances as an aligned table
+ */
+export function formatInstances(instances: InstanceEntry[]): string {
+  if (instances.length === 0) return "No running mcpmon instances";
+
+  const rows = [
+    ["PID", "NAME", "UPTIME", "COMMAND", "WATCHING"],
+    ...instances.map((entry) => [
+      String(entry.pid),
+      entry.name,
+      formatSince(entry.startedAt),
+      [entry.command, ...entry.args].join(" "),
+      entry.watchTargets.join(", ") || "-",
+    ]),
+  ];
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+  return rows
+    .map((row) =>
+      row
+        .map((cell, column) => cell.padEnd(widths[column]))
+        .join("  ")
+        .trimEnd()
+    )
+    .join("\n");
+}
+
+/**
+ * mcpmon ps
+ */
+export function psCommand(options: { json?: boolean }) {
+  let instances: InstanceEntry[];
+  try {
+    instances = new InstanceRegistry().list();
+  } catch (error) {
+    console.error(`❌ ${(error as Error).message}`);
+    process.exit(1);
+  }
+  console.log(options.json ? JSON.stringify(instances, null, 2) : formatInstances(instances));
+}
+
+/**
+ * mcpmon restart <name|pid> - over the control socket, or SIGHUP without one
+ */
+export async function restartCommand(target: string) {
+  const instance = findOrExit(target);
+  if (instance.controlSocket) {
+    const response = await sendControlRequest(instance.controlSocket, {
+      command: "restart",
+      reason: "mcpmon restart",
+    });
+    if (!response.ok) {
+      console.error(`❌ Restart failed: ${response.error}`);
+      process.exit(1);
+    }
+  } else {
+    await confirmOrExit(instance);
+    process.kill(instance.pid, "SIGHUP");
+  }
+  console.log(`🔄 Restarted ${instance.name} (PID ${instance.pid})`);
+}
+
+/**
+ * mcpmon logs <name|pid> - recent server stderr, read over the control socket
+ */
+export async function logsCommand(target: string, options: { tail: string }) {
+  const instance = findOrExit(target);
+  if (!instance.controlSocket) {
+    console.error(`❌ ${instance.name} (PID ${instance.pid}) has no control socket`);
+    process.exit(1);
+  }
+  const response = await sendControlRequest(instance.controlSocket, {
+    command: "logs",
+    tail: parseInt(options.tail),
+  });
+  if (!response.ok) {
+    console.error(`❌ Could not read logs: ${response.error}`);
+    process.exit(1);
+  }
+  for (const line of response.result as string[]) {
+    console.log(line);
+  }
+}
+
+/**
+ * mcpmon stop <name|pid> - SIGTERM, then wait up to 5 seconds for the instance to exit
+ */
+export async function stopCommand(target: string) {
+  const instance = findOrExit(target);
+  await confirmOrExit(instance);
+  process.kill(instance.pid, "SIGTERM");
+
+  const deadline = Date.now() + 5000;
+  while (isAlive(instance.pid) && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+  if (isAlive(instance.pid)) {
+    console.error(`⚠️  ${instance.name} (PID ${instance.pid}) is still shutting down`);
+    process.exit(1);
+  }
+  new InstanceRegistry().unregister(instance.pid);
+  console.log(`🛑 Stopped ${instance.name} (PID ${instance.pid})`);
+}
+
+function findOrExit(target: string): InstanceEntry {
+  try {
+    return new InstanceRegistry().find(target);
+  } catch (error) {
+    console.error(`❌ ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Refuse to signal a PID that may have been reused by an unrelated process
+ */
+async function confirmOrExit(instance: InstanceEntry) {
+  if (!(await new InstanceRegistry().confirm(instance))) {
+    console.error(
+      `❌ PID ${instance.pid} is no longer ${instance.name}; removed the stale registry entry`
+    );
+    process.exit(1);
+  }
+}
@@ -17,6 +17,8 @@ import { join, resolve } from 'path';
 import { homedir } from 'os';
 import { platform } from 'process';
 import { execSync } from 'child_process';
+import { createProcessLogger } from './logger.js';
+import type { Logger } from './logger.js';
 
 interface MCPServerConfig {
   command: string;
@@ -193,14 +195,14 @@ function unwrapMcpmonConfig(serverConfig: MCPServerConfig): MCPServerConfig {
 /**
  * Find config file in standard locations
  */
-function findConfigFile(providedPath?: string): string | null {
+function findConfigFile(log: Logger, providedPath?: string): string | null {
   // If path is provided, use it directly
   if (providedPath) {
     const resolvedPath = resolve(providedPath);
     if (existsSync(resolvedPath)) {
       return resolvedPath;
     }
-    console.error(`❌ Config file not found: ${resolvedPath}`);
+    log.error(`❌ Config file not found: ${resolvedPath}`);
     return null;
   }
 
@@ -232,7 +234,7 @@ function findConfigFile(providedPath?: string): string | null {
   // Check each path
   for (const path of searchPaths) {
     if (existsSync(path)) {
-      console.log(`📋 Found config at: ${path}`);
+      log.info(`📋 Found config at: ${path}`);
       return path;
     }
   }
@@ -243,22 +245,22 @@ function findConfigFile(providedPath?: string): string | null {
 /**
  * List available servers in the config
  */
-function listServers(config: MCPServersConfig, configPath: string): void {
+function listServers(config: MCPServersConfig, configPath: string, log: Logger): void {
   const serverNames = Object.keys(config.mcpServers);
   if (serverNames.length === 0) {
-    console.log('No servers found in config file');
+    log.info('No servers found in config file');
     return;
   }
 
-  console.log(`Available servers in ${configPath}:\n`);
+  log.info(`Available servers in ${configPath}:\n`);
   for (const name of serverNames) {
     const server = config.mcpServers[name];
     const isStdio = isStdioServer(server);
-    console.log(`  📦 ${name} ${isStdio ? '(stdio)' : '(HTTP/SSE)'}`);
-    console.log(`     Command: ${server.command} ${(server.args || []).join(' ')}`);
-    if (server.cwd) console.log(`     Working Dir: ${server.cwd}`);
-    if (server.env) console.log(`     Env Vars: ${Object.keys(server.env).join(', ')}`);
-    console.log();
+    log.info(`  📦 ${name} ${isStdio ? '(stdio)' : '(HTTP/SSE)'}`);
+    log.info(`     Command: ${server.command} ${(server.args || []).join(' ')}`);
+    if (server.cwd) log.info(`     Working Dir: ${server.cwd}`);
+    if (server.env) log.info(`     Env Vars: ${Object.keys(server.env).join(', ')}`);
+    log.info('');
   }
 }
 
@@ -269,18 +271,19 @@ async function setupHotReload(
   config: MCPServersConfig,
   configPath: string,
   serverName: string | null,
-  setupAll: boolean
+  setupAll: boolean,
+  log: Logger
 ): Promise<void> {
-  console.log(`🔧 Setting up hot-reload proxy...`);
-  console.log(`📋 Config: ${configPath}`);
+  log.info(`🔧 Setting up hot-reload proxy...`);
+  log.info(`📋 Config: ${configPath}`);
 
   // Create backup
   const backupPath = configPath + '.backup-' + new Date().toISOString().replace(/[:.]/g, '-');
   try {
     copyFileSync(configPath, backupPath);
-    console.log(`💾 Backup created: ${backupPath}`);
+    log.info(`💾 Backup created: ${backupPath}`);
   } catch (error: any) {
-    console.error(`❌ Failed to create backup: ${error.message}`);
+    log.error(`❌ Failed to create backup: ${error.message}`);
     process.exit(1);
   }
 
@@ -294,28 +297,28 @@ async function setupHotReload(
       .map(([name]) => name);
 
     if (serversToSetup.length === 0) {
-      console.error(`❌ No stdio servers found to setup`);
+      log.error(`❌ No stdio servers found to setup`);
       process.exit(1);
     }
 
-    console.log(`\n📦 Found ${serversToSetup.length} stdio servers to setup:`);
-    serversToSetup.forEach((name) => console.log(`   - ${name}`));
+    log.info(`\n📦 Found ${serversToSetup.length} stdio servers to setup:`);
+    serversToSetup.forEach((name) => log.info(`   - ${name}`));
   } else if (serverName) {
     // Setup specific server
     if (!config.mcpServers[serverName]) {
-      console.error(`❌ Server '${serverName}' not found in config`);
+      log.error(`❌ Server '${serverName}' not found in config`);
       process.exit(1);
     }
 
     if (!isStdioServer(config.mcpServers[serverName])) {
-      console.error(`❌ Server '${serverName}' appears to use HTTP/SSE transport, not stdio`);
-      console.error(`   Hot-reload proxy only supports stdio servers`);
+      log.error(`❌ Server '${serverName}' appears to use HTTP/SSE transport, not stdio`);
+      log.error(`   Hot-reload proxy only supports stdio servers`);
       process.exit(1);
     }
 
     serversToSetup = [serverName];
   } else {
-    console.error(`❌ Please specify a server name or use --all`);
+    log.error(`❌ Please specify a server name or use --all`);
     process.exit(1);
   }
 
@@ -327,7 +330,7 @@ async function setupHotReload(
   const mcpmonCmd = getMcpmonCommand();
   
   if (mcpmonCmd.command !== 'mcpmon') {
-    console.log(`\n🚀 Using Node.js ${mcpmonCmd.command} to run mcpmon`);
+    log.info(`\n🚀 Using Node.js ${mcpmonCmd.command} to run mcpmon`);
   }
   
   for (const name of serversToSetup) {
@@ -335,8 +338,8 @@ async function setupHotReload(
 
     // Check if already configured with mcpmon
     if (isAlreadyConfigured(serverConfig)) {
-      console.log(`⚠️  Server '${name}' is already configured with mcpmon`);
-      console.log(`   Unwrapping and re-configuring...`);
+      log.info(`⚠️  Server '${name}' is already configured with mcpmon`);
+      log.info(`   Unwrapping and re-configuring...`);
       
       // Unwrap the existing configuration to get the original
       const original = unwrapMcpmonConfig(serverConfig);
@@ -349,7 +352,7 @@ async function setupHotReload(
         cwd: serverConfig.cwd,
       };
     } else {
-      console.log(`🔧 Configuring '${name}' for hot-reload...`);
+      log.info(`🔧 Configuring '${name}' for hot-reload...`);
       
       // First-time configuration
       newConfig.mcpServers[name] = {
@@ -367,37 +370,37 @@ async function setupHotReload(
   try {
     const configText = JSON.stringify(newConfig, null, 2);
     writeFileSync(configPath, configText, 'utf8');
-    console.log(`\n✅ Updated config file: ${configPath}`);
-    console.log(`\n📝 Hot-reload configured for ${serversToSetup.length} server(s):`);
+    log.info(`\n✅ Updated config file: ${configPath}`);
+    log.info(`\n📝 Hot-reload configured for ${serversToSetup.length} server(s):`);
     for (const serverName of serversToSetup) {
-      console.log(`   - ${serverName} → mcpmon ${config.mcpServers[serverName].command}`);
+      log.info(`   - ${serverName} → mcpmon ${config.mcpServers[serverName].command}`);
     }
-    console.log(`\n⚠️  Important: Restart your MCP client (Claude Desktop, etc.) to load the new configuration.`);
+    log.info(`\n⚠️  Important: Restart your MCP client (Claude Desktop, etc.) to load the new configuration.`);
   } catch (error: any) {
-    console.error(`❌ Failed to write config: ${error.message}`);
+    log.error(`❌ Failed to write config: ${error.message}`);
     process.exit(1);
   }
 
   // Show summary
-  console.log(`\n🎉 Successfully configured ${modifiedServers.length} server(s) for hot-reload:`);
+  log.info(`\n🎉 Successfully configured ${modifiedServers.length} server(s) for hot-reload:`);
   modifiedServers.forEach((name) => {
-    console.log(`\n   📦 ${name} (now using mcpmon for hot-reload)`);
+    log.info(`\n   📦 ${name} (now using mcpmon for hot-reload)`);
   });
 
-  console.log(`\n💡 To restore original configuration:`);
-  console.log(`   cp "${backupPath}" "${configPath}"`);
+  log.info(`\n💡 To restore original configuration:`);
+  log.info(`   cp "${backupPath}" "${configPath}"`);
 
   if (configPath.includes('claude_desktop_config.json')) {
-    console.log(`\n⚠️  Restart Claude Desktop to apply changes`);
+    log.info(`\n⚠️  Restart Claude Desktop to apply changes`);
   } else if (configPath.includes('.mcp.json')) {
-    console.log(`\n⚠️  Restart Claude Code or reload the project`);
+    log.info(`\n⚠️  Restart Claude Code or reload the project`);
   }
 }
 
 /**
  * Restore config from latest backup
  */
-function restoreConfig(configPath: string): void {
+function restoreConfig(configPath: string, log: Logger): void {
   // Find latest backup
   const dir = resolve(configPath, '..');
   const baseName = configPath.split('/').pop() || configPath.split('\\').pop() || '';
@@ -410,19 +413,19 @@ function restoreConfig(configPath: string): void {
     .reverse();
 
   if (backups.length === 0) {
-    console.error(`❌ No backups found for ${configPath}`);
+    log.error(`❌ No backups found for ${configPath}`);
     process.exit(1);
   }
 
   const latestBackup = join(dir, backups[0]);
-  console.log(`📋 Restoring from: ${latestBackup}`);
+  log.info(`📋 Restoring from: ${latestBackup}`);
 
   try {
     copyFileSync(latestBackup, configPath);
-    console.log(`✅ Config restored successfully`);
-    console.log(`\n⚠️  Remember to restart Claude to apply changes`);
+    log.info(`✅ Config restored successfully`);
+    log.info(`\n⚠️  Remember to restart Claude to apply changes`);
   } catch (error: any) {
-    console.error(`❌ Failed to restore config: ${error.message}`);
+    log.error(`❌ Failed to restore config: ${error.message}`);
     process.exit(1);
   }
 }
@@ -430,7 +433,7 @@ function restoreConfig(configPath: string): void {
 /**
  * Main setup function (legacy - for backward compatibility)
  */
-export function setup(args: string[]): void {
+export function setup(args: string[], log: Logger = createProcessLogger({ infoToStdout: true })): void {
   // Parse arguments
   let configPath: string | undefined;
   let serverName: string | null = null;
@@ -453,19 +456,24 @@ export function setup(args: string[]): void {
     }
   }
 
-  executeSetup(configPath, serverName, listMode, setupAll, restoreMode);
+  executeSetup(configPath, serverName, listMode, setupAll, restoreMode, log);
 }
 
 /**
  * Commander.js setup function
  */
-export function setupCommand(serverName: string | undefined, options: any): void {
+export function setupCommand(
+  serverName: string | undefined,
+  options: any,
+  log: Logger = createProcessLogger({ infoToStdout: true })
+): void {
   executeSetup(
     options.config,
     serverName || null,
     options.list || false,
     options.all || false,
-    options.restore || false
+    options.restore || false,
+    log
   );
 }
 
@@ -477,30 +485,31 @@ function executeSetup(
   serverName: string | null,
   listMode: boolean,
   setupAll: boolean,
-  restoreMode: boolean
+  restoreMode: boolean,
+  log: Logger
 ): void {
 
   // Find config file
-  const foundConfigPath = findConfigFile(configPath);
+  const foundConfigPath = findConfigFile(log, configPath);
   if (!foundConfigPath) {
-    console.error(`\n❌ No config file found!`);
-    console.error(`\nSearched in:`);
-    console.error(`  1. .mcp.json (Claude Code project config)`);
+    log.error(`\n❌ No config file found!`);
+    log.error(`\nSearched in:`);
+    log.error(`  1. .mcp.json (Claude Code project config)`);
     if (platform === 'darwin') {
-      console.error(`  2. ~/Library/Application Support/Claude/claude_desktop_config.json`);
+      log.error(`  2. ~/Library/Application Support/Claude/claude_desktop_config.json`);
     } else if (platform === 'win32') {
-      console.error(`  2. %APPDATA%\\Claude\\claude_desktop_config.json`);
+      log.error(`  2. %APPDATA%\\Claude\\claude_desktop_config.json`);
     } else {
-      console.error(`  2. ~/.config/Claude/claude_desktop_config.json`);
+      log.error(`  2. ~/.config/Claude/claude_desktop_config.json`);
     }
-    console.error(`  3. ./mcpServers.json`);
-    console.error(`\nYou can specify a custom path with --config <path>`);
+    log.error(`  3. ./mcpServers.json`);
+    log.error(`\nYou can specify a custom path with --config <path>`);
     process.exit(1);
   }
 
   // Handle restore mode
   if (restoreMode) {
-    restoreConfig(foundConfigPath);
+    restoreConfig(foundConfigPath, log);
     return;
   }
 
@@ -510,24 +519,24 @@ function executeSetup(
     const configText = readFileSync(foundConfigPath, 'utf8');
     config = JSON.parse(configText);
   } catch (error: any) {
-    console.error(`❌ Failed to read config file: ${error.message}`);
+    log.error(`❌ Failed to read config file: ${error.message}`);
     process.exit(1);
   }
 
   // Validate config structure
   if (!config.mcpServers || typeof config.mcpServers !== 'object') {
-    console.error(`❌ Invalid config format: missing or invalid 'mcpServers' object`);
-    console.error(`\nExpected format: { "mcpServers": { "name": { "command": "...", "args": [...] } } }`);
+    log.error(`❌ Invalid config format: missing or invalid 'mcpServers' object`);
+    log.error(`\nExpected format: { "mcpServers": { "name": { "command": "...", "args": [...] } } }`);
     process.exit(1);
   }
 
   // Handle list mode
   if (listMode) {
-    listServers(config, foundConfigPath);
+    listServers(config, foundConfigPath, log);
     return;
   }
 
   // Handle setup mode
-  setupHotReload(config, foundConfigPath, serverName, setupAll);
+  setupHotReload(config, foundConfigPath, serverName, setupAll, log);
 }
 
@@ -0,0 +1,149 @@
+/**
+ * mcpmon control tools
+ *
+ * With controlTools enabled, the proxy adds its own tools to the server's tools/list and answers
+ * tools/call for them, so the assistant can restart the server it is developing and read its
+ * crash output in the same conversation. Names carry a prefix (default "mcpmon_") to keep them
+ * apart from the server's tools.
+ */
+
+import { formatReloadDiff } from "./diff.js";
+import { formatStatus } from "./keyboard.js";
+import type { MCPProxy } from "./proxy.js";
+
+export const DEFAULT_TOOL_PREFIX = "mcpmon_";
+
+/** Tool names without the prefix */
+export const CONTROL_TOOLS = ["restart", "server_logs", "status", "tool_diff"] as const;
+
+export type ControlTool = (typeof CONTROL_TOOLS)[number];
+
+/** The proxy operations the control tools are built on */
+export type ControlToolTarget = Pick<
+  MCPProxy,
+  "forceRestart" | "getRecentLogs" | "getStatus" | "getLastDiff"
+>;
+
+export interface ToolDescriptor {
+  name: string;
+  description: string;
+  inputSchema: { type: "object"; properties: Record<string, unknown> };
+}
+
+export interface ToolResult {
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+}
+
+const DESCRIPTIONS: Record<ControlTool, Omit<ToolDescriptor, "name">> = {
+  restart: {
+    description:
+      "Restart the MCP server under development (run by mcpmon) and report the result, " +
+      "including any tool, resource or prompt changes. Use after changing the server's code.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        reason: { type: "string", description: "Why the restart is needed, for the logs" },
+      },
+    },
+  },
+  server_logs: {
+    description:
+      "Read the most recent stderr output of the MCP server run by mcpmon, including the " +
+      "output of processes that crashed",
+    inputSchema: {
+      type: "object",
+      properties: {
+        lines: { type: "number", description: "Number of most recent lines (default: 50)" },
+      },
+    },
+  },
+  status: {
+    description: "Show whether the MCP server run by mcpmon is running, its PID and uptime",
+    inputSchema: { type: "object", properties: {} },
+  },
+  tool_diff: {
+    description: "Show which tools, resources and prompts changed in the server's last reload",
+    inputSchema: { type: "object", properties: {} },
+  },
+};
+
+/**
+ * The control tools to merge into tools/list
+ */
+export function listControlTools(prefix = DEFAULT_TOOL_PREFIX): ToolDescriptor[] {
+  return CONTROL_TOOLS.map((tool) => ({ name: prefix + tool, ...DESCRIPTIONS[tool] }));
+}
+
+export function isControlTool(name: unknown, prefix = DEFAULT_TOOL_PREFIX): name is string {
+  return (
+    typeof name === "string" &&
+    name.startsWith(prefix) &&
+    (CONTROL_TOOLS as readonly string[]).includes(name.slice(prefix.length))
+  );
+}
+
+/**
+ * Run a control tool. Failures are reported in the result (isError), as MCP expects for tool
+ * execution errors, rather than as JSON-RPC errors.
+ */
+export async function callControlTool(
+  proxy: ControlToolTarget,
+  name: string,
+  args: Record<string, unknown> = {},
+  prefix = DEFAULT_TOOL_PREFIX
+): Promise<ToolResult> {
+  try {
+    switch (name.slice(prefix.length) as ControlTool) {
+      case "restart":
+        return await restart(proxy, args);
+      case "server_logs":
+        return serverLogs(proxy, args);
+      case "status":
+        return text(formatStatus(proxy.getStatus()));
+      case "tool_diff": {
+        const diff = proxy.getLastDiff();
+        return text(diff ? formatReloadDiff(diff) : "📋 No reload has happened yet");
+      }
+      default:
+        return error(`Unknown tool: ${name}`);
+    }
+  } catch (caught) {
+    return error(`${name} failed: ${caught}`);
+  }
+}
+
+async function restart(proxy: ControlToolTarget, args: Record<string, unknown>) {
+  const reason = typeof args.reason === "string" && args.reason ? args.reason : "assistant";
+  const before = proxy.getStatus().generation;
+  await proxy.forceRestart(reason);
+  const status = proxy.getStatus();
+
+  if (status.generation === before) {
+    return error(
+      "The restart did not complete - a build command failed or the new server failed " +
+        "validation, so the previous server is still running. Check the server logs.\n\n" +
+        formatStatus(status)
+    );
+  }
+  const diff = proxy.getLastDiff();
+  const changes = diff?.generation === status.generation ? `\n\n${formatReloadDiff(diff)}` : "";
+  return text(`🔄 Server restarted\n${formatStatus(status)}${changes}`);
+}
+
+function serverLogs(proxy: ControlToolTarget, args: Record<string, unknown>) {
+  const lines = args.lines === undefined ? 50 : Number(args.lines);
+  if (!Number.isInteger(lines) || lines < 1) {
+    return error(`Invalid lines "${args.lines}", expected a positive number`);
+  }
+  const logs = proxy.getRecentLogs(lines);
+  return text(logs.length ? logs.join("\n") : "(the server has not written anything to stderr)");
+}
+
+function text(value: string): ToolResult {
+  return { content: [{ type: "text", text: value }] };
+}
+
+function error(value: string): ToolResult {
+  return { content: [{ type: "text", text: value }], isError: true };
+}
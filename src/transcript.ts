@@ -0,0 +1,87 @@
+/**
+ * Session transcripts of the JSON-RPC traffic (--record)
+ *
+ * When a client reports that a server "stopped working after a reload", the transcript shows
+ * what each side actually sent: every message crossing the proxy, which server generation and
+ * process it went to or came from, which requests waited out a restart, and - inline - the
+ * restarts and file changes in between.
+ */
+
+import { closeSync, openSync, writeSync } from "fs";
+import type { ProxyEventMap, ProxyEventType } from "./events.js";
+import type { Message } from "./proxy.js";
+
+/** A JSON-RPC message that crossed the proxy */
+export interface TranscriptMessage {
+  time: string;
+  type: "message";
+  /** "in" from the client, "out" to the client */
+  direction: "in" | "out";
+  /** The server generation and PID that received or sent it (for "in": when it arrived) */
+  generation: number;
+  pid: number | null;
+  /** Arrived during a restart and was held for the restarted server */
+  buffered?: true;
+  /** Answered or sent by mcpmon itself rather than the server */
+  proxy?: true;
+  /** The message as forwarded, or raw for server output that is not JSON */
+  message?: Message;
+  raw?: string;
+}
+
+/** A lifecycle event between the messages, with the event's payload */
+export type TranscriptMarker = {
+  [K in Exclude<ProxyEventType, "message:client" | "message:server">]: {
+    time: string;
+    type: "marker";
+    event: K;
+  } & ProxyEventMap[K];
+}[Exclude<ProxyEventType, "message:client" | "message:server">];
+
+export type TranscriptRecord = TranscriptMessage | TranscriptMarker;
+
+/**
+ * Destination of a session transcript, one record at a time
+ */
+export interface TranscriptSink {
+  write(record: TranscriptRecord): void;
+}
+
+/**
+ * Writes a transcript as JSON Lines, one record per line. The file is replaced when it is
+ * opened, so it holds exactly one mcpmon session. Writes are synchronous so the records before
+ * a crash are on disk.
+ */
+export class TranscriptFile implements TranscriptSink {
+  private fd: number | null;
+
+  /**
+   * @param onError Called once when the file cannot be written; later records are dropped
+   */
+  constructor(
+    readonly path: string,
+    private onError?: (error: unknown) => void
+  ) {
+    this.fd = openSync(path, "w");
+  }
+
+  write(record: TranscriptRecord) {
+    if (this.fd === null) return;
+    try {
+      writeSync(this.fd, JSON.stringify(record) + "\n");
+    } catch (error) {
+      this.close();
+      this.onError?.(error);
+    }
+  }
+
+  close() {
+    if (this.fd === null) return;
+    try {
+      closeSync(this.fd);
+    } catch {
+      // Already closed
+    }
+    this.fd = null;
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Serialized outbound writes for a single stream
+ *
+ * Web streams allow only one writer at a time: a second concurrent getWriter() throws, and
+ * separately awaited writes can interleave. Every destination the proxy writes to (server
+ * stdin, client stdout, client stderr) goes through one WriteQueue, which writes each chunk
+ * whole, in the order it was queued, and only once the stream is ready for more.
+ */
+
+const encoder = new TextEncoder();
+
+export class WriteQueue {
+  private tail: Promise<void> = Promise.resolve();
+
+  constructor(private stream: WritableStream<Uint8Array>) {}
+
+  /**
+   * Queue a chunk. Resolves once it has been written and rejects if the write failed;
+   * a failed chunk never blocks the chunks queued after it.
+   */
+  write(chunk: Uint8Array): Promise<void> {
+    const result = this.tail.then(() => this.writeNow(chunk));
+    this.tail = result.catch(() => {});
+    return result;
+  }
+
+  /**
+   * Queue a single line. The line and its newline are written as one chunk, so concurrent
+   * writers can never split it.
+   */
+  writeLine(line: string): Promise<void> {
+    return this.write(encoder.encode(line + "\n"));
+  }
+
+  /**
+   * Queue a JSON-RPC message as one newline-delimited line
+   */
+  writeMessage(message: unknown): Promise<void> {
+    return this.writeLine(JSON.stringify(message));
+  }
+
+  private async writeNow(chunk: Uint8Array) {
+    const writer = this.stream.getWriter();
+    try {
+      // Respect backpressure: wait until the sink has room before handing it more
+      await writer.ready;
+      await writer.write(chunk);
+    } finally {
+      writer.releaseLock();
+    }
+  }
+}
@@ -0,0 +1,132 @@
+/// <reference path="./global.d.ts" />
+/**
+ * Behavioral test for blue/green restarts
+ *
+ * With blueGreen set, a file change starts the new server next to the old one. Traffic is only
+ * switched (and the old server killed) once the new one has answered initialize and tools/list;
+ * a new server that fails validation is killed and the old one keeps serving.
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { MockManagedProcess } from "../mocks/MockProcessManager.js";
+import {
+  collectOutput,
+  getStdinMessages,
+  sendMessage,
+  serveRequests,
+  setupProxyTest,
+  waitForSpawns,
+  waitForStable,
+} from "./test_helper.js";
+
+/**
+ * Answer every request the process received that has not been answered yet
+ */
+function serve(process: MockManagedProcess, answered: Set<unknown>, tools: object[]) {
+  serveRequests(process, answered, (message) => ({
+    result:
+      message.method === "initialize"
+        ? { protocolVersion: "2024-11-05", capabilities: { tools: {} } }
+        : { tools, served: process.pid },
+  }));
+}
+
+async function startSession() {
+  const context = setupProxyTest({ blueGreen: true, readyDelay: 200 });
+  const output = collectOutput(context.stdoutReader);
+  const send = (message: object) => sendMessage(context.stdinWriter, message);
+
+  context.proxy.start();
+  await waitForSpawns(context.procManager, 1);
+  const oldServer = context.procManager.getLastSpawnedProcess()!;
+
+  await send({ jsonrpc: "2.0", id: 1, method: "initialize", params: { capabilities: {} } });
+  await waitForStable(50);
+  serve(oldServer, new Set(), []);
+  await send({ jsonrpc: "2.0", method: "notifications/initialized" });
+  await waitForStable(50);
+
+  return { ...context, output, send, oldServer };
+}
+
+describe("Test Suite", () => {
+  it("Blue/green - old server keeps running until the new one is validated", async () => {
+    const { procManager, fs, output, send, oldServer, teardown } = await startSession();
+    const answered = new Set<unknown>();
+
+    try {
+      fs.triggerFileEvent("/test/server.js", "modify");
+      await waitForSpawns(procManager, 2);
+      const newServer = procManager.getLastSpawnedProcess()!;
+      await waitForStable(30);
+
+      // Validation has started: the old server is still up and still serving
+      expect(oldServer.killCalls).toHaveLength(0);
+      await send({ jsonrpc: "2.0", id: 2, method: "tools/list" });
+      await waitForStable(30);
+      serve(oldServer, new Set([1]), []);
+      await waitForStable(30);
+      expect(output.messages().find((m) => m.id === 2).result.served).toBe(oldServer.pid);
+
+      // The new server answers initialize, then tools/list
+      for (let i = 0; i < 3; i++) {
+        serve(newServer, answered, [{ name: "echo" }]);
+        await waitForStable(30);
+      }
+      const validation = getStdinMessages(newServer).map((m) => m.method);
+      expect(validation.slice(0, 3)).toEqual([
+        "initialize",
+        "notifications/initialized",
+        "tools/list",
+      ]);
+
+      // Only now is the old server retired
+      expect(oldServer.getLastKillSignal()).toBe("SIGTERM");
+      oldServer.simulateExit(0);
+      for (let i = 0; i < 5; i++) {
+        serve(newServer, answered, [{ name: "echo" }]);
+        await waitForStable(30);
+      }
+
+      // Validation responses never reach the client, and traffic now goes to the new server
+      await send({ jsonrpc: "2.0", id: 3, method: "tools/list" });
+      await waitForStable(50);
+      serve(newServer, answered, [{ name: "echo" }]);
+      await waitForStable(50);
+      const results = output.messages().filter((m) => m.result?.tools);
+      expect(results.map((m) => m.id)).toEqual([2, 3]);
+      expect(results[1].result.served).toBe(newServer.pid);
+      expect(getStdinMessages(newServer).filter((m) => m.method === "initialize")).toHaveLength(1);
+    } finally {
+      await teardown();
+    }
+  });
+
+  it("Blue/green - a new server that fails validation is killed and the old one stays", async () => {
+    const { procManager, fs, output, send, oldServer, teardown } = await startSession();
+
+    try {
+      fs.triggerFileEvent("/test/server.js", "modify");
+      await waitForSpawns(procManager, 2);
+      const newServer = procManager.getLastSpawnedProcess()!;
+      await waitForStable(30);
+
+      // The new build crashes on startup
+      newServer.simulateExit(1);
+      await waitForStable(100);
+
+      expect(newServer.getLastKillSignal()).toBe("SIGKILL");
+      expect(oldServer.killCalls).toHaveLength(0);
+      expect(procManager.getSpawnCallCount()).toBe(2);
+
+      // The old server still serves client traffic
+      await send({ jsonrpc: "2.0", id: 2, method: "tools/list" });
+      await waitForStable(50);
+      serve(oldServer, new Set([1]), []);
+      await waitForStable(50);
+      expect(output.messages().find((m) => m.id === 2).result.served).toBe(oldServer.pid);
+    } finally {
+      await teardown();
+    }
+  });
+});
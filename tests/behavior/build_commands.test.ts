@@ -0,0 +1,90 @@
+/// <reference path="./global.d.ts" />
+/**
+ * Behavioral test for pre-restart build commands
+ *
+ * buildCommands run through the ProcessManager after a file change and before the old server
+ * is killed. The restart only happens when every command succeeds; a failing build is reported
+ * with its output and the running server is left alone.
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { collectOutput, setupProxyTest, waitForSpawns, waitForStable } from "./test_helper.js";
+
+describe("Test Suite", () => {
+  it("Build commands - run in order before the server is restarted", async () => {
+    const { proxy, procManager, fs, teardown } = setupProxyTest({
+      buildCommands: ["tsc -p .", "eslint 'src dir'"],
+    });
+
+    try {
+      proxy.start();
+      await waitForSpawns(procManager, 1);
+      const server = procManager.getLastSpawnedProcess()!;
+      await waitForStable(50);
+
+      // A burst of saves triggers one build
+      fs.triggerFileEvent("/test/server.js", "modify");
+      fs.triggerFileEvent("/test/server.js", "modify");
+      await waitForSpawns(procManager, 2);
+      await waitForStable(100);
+      expect(procManager.getSpawnCallCount()).toBe(2);
+      expect(procManager.spawnCalls[1].command).toBe("tsc");
+      expect(procManager.spawnCalls[1].args).toEqual(["-p", "."]);
+
+      // The build writing its output does not queue another restart
+      fs.triggerFileEvent("/test/server.js", "modify");
+      expect(server.killCalls).toHaveLength(0);
+      procManager.getLastSpawnedProcess()!.simulateExit(0);
+
+      await waitForSpawns(procManager, 3);
+      expect(procManager.spawnCalls[2].command).toBe("eslint");
+      expect(procManager.spawnCalls[2].args).toEqual(["src dir"]);
+      expect(server.killCalls).toHaveLength(0);
+      procManager.getLastSpawnedProcess()!.simulateExit(0);
+
+      // Only now is the server restarted
+      await waitForStable(50);
+      expect(server.getLastKillSignal()).toBe("SIGTERM");
+      server.simulateExit(0);
+      await waitForSpawns(procManager, 4);
+      expect(procManager.spawnCalls[3].command).toBe("node");
+
+      await waitForStable(200);
+      expect(procManager.getSpawnCallCount()).toBe(4);
+    } finally {
+      await teardown();
+    }
+  });
+
+  it("Build commands - a failing build aborts the restart and shows its output", async () => {
+    const { proxy, procManager, fs, stderrReader, teardown } = setupProxyTest({
+      buildCommands: ["tsc -p .", "eslint ."],
+    });
+    const stderr = collectOutput(stderrReader);
+
+    try {
+      proxy.start();
+      await waitForSpawns(procManager, 1);
+      const server = procManager.getLastSpawnedProcess()!;
+      await waitForStable(50);
+
+      fs.triggerFileEvent("/test/server.js", "modify");
+      await waitForSpawns(procManager, 2);
+      const build = procManager.getLastSpawnedProcess()!;
+      build.simulateStdout("src/server.ts(3,7): error TS2322: Type 'string' is not assignable\n");
+      build.simulateExit(2);
+      await waitForStable(200);
+
+      const logs = stderr.lines;
+      expect(logs).toContain("❌ Build command failed with code 2: tsc -p .");
+      expect(logs).toContain("src/server.ts(3,7): error TS2322: Type 'string' is not assignable");
+
+      // The second command never ran and the server was not touched
+      expect(procManager.getSpawnCallCount()).toBe(2);
+      expect(server.killCalls).toHaveLength(0);
+      expect(proxy.isRunning()).toBe(true);
+    } finally {
+      await teardown();
+    }
+  });
+});
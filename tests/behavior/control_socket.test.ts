@@ -0,0 +1,123 @@
+/// <reference path="./global.d.ts" />
+/**
+ * Behavioral test for the control socket
+ *
+ * External tools drive a running mcpmon over a Unix domain socket with newline-delimited JSON
+ * commands: status, restart, logs, tools, pause-watch and resume-watch.
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { createConnection } from "net";
+import { existsSync, statSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ControlServer, defaultControlSocketPath } from "../../src/control.js";
+import { collectOutput, setupProxyTest, waitForSpawns, waitForStable } from "./test_helper.js";
+
+/**
+ * Send request lines over one connection and collect one response per request
+ */
+function roundTrip(path: string, requests: unknown[]): Promise<any[]> {
+  return new Promise((resolve, reject) => {
+    const socket = createConnection(path);
+    const responses: any[] = [];
+    let buffer = "";
+    socket.setEncoding("utf8");
+    socket.on("error", reject);
+    socket.on("data", (chunk: string) => {
+      const lines = (buffer + chunk).split("\n");
+      buffer = lines.pop()!;
+      responses.push(...lines.map((line) => JSON.parse(line)));
+      if (responses.length === requests.length) {
+        socket.end();
+        resolve(responses);
+      }
+    });
+    socket.write(requests.map((request) => JSON.stringify(request) + "\n").join(""));
+  });
+}
+
+describe("Test Suite", () => {
+  it("Control socket - status, logs, tools and errors over a Unix socket", async () => {
+    const { proxy, procManager, stderrReader, teardown } = setupProxyTest();
+    const path = join(tmpdir(), `mcpmon-test-${process.pid}.sock`);
+    collectOutput(stderrReader);
+    const control = new ControlServer(proxy, path);
+
+    try {
+      proxy.start();
+      await waitForSpawns(procManager, 1);
+      const server = procManager.getLastSpawnedProcess()!;
+      server.simulateStderr("listening\npartial");
+      server.simulateStderr(" line\nready\n");
+      await waitForStable(50);
+
+      await control.listen();
+      expect(statSync(path).mode & 0o777).toBe(0o600);
+
+      const [status, logs, tools, unknown, invalid] = await roundTrip(path, [
+        { id: 1, command: "status" },
+        { id: 2, command: "logs", tail: 2 },
+        { id: 3, command: "tools" },
+        { id: 4, command: "explode" },
+        "not an object",
+      ]);
+
+      expect(status).toMatchObject({ id: 1, ok: true, result: { pid: server.pid, running: true } });
+      expect(logs).toEqual({ id: 2, ok: true, result: ["partial line", "ready"] });
+      expect(tools).toEqual({ id: 3, ok: true, result: null });
+      expect(unknown.ok).toBe(false);
+      expect(unknown.error).toContain('Unknown command "explode"');
+      expect(invalid).toEqual({ ok: false, error: 'Expected an object with a "command" field' });
+
+      // A second mcpmon cannot take over a live socket
+      await expect(new ControlServer(proxy, path).listen()).rejects.toThrow("in use");
+    } finally {
+      control.close();
+      await teardown();
+    }
+
+    expect(existsSync(path)).toBe(false);
+  });
+
+  it("Control socket - pause-watch defers restarts until resume-watch", async () => {
+    const { proxy, procManager, fs, teardown } = setupProxyTest();
+    const path = join(tmpdir(), `mcpmon-test-pause-${process.pid}.sock`);
+    const control = new ControlServer(proxy, path);
+
+    try {
+      proxy.start();
+      await waitForSpawns(procManager, 1);
+      const server = procManager.getLastSpawnedProcess()!;
+      await waitForStable(50);
+      await control.listen();
+
+      const [paused] = await roundTrip(path, [{ command: "pause-watch" }]);
+      expect(paused.result.watchPaused).toBe(true);
+
+      fs.triggerFileEvent("/test/server.js", "modify");
+      fs.triggerFileEvent("/test/server.js", "modify");
+      await waitForStable(150);
+      expect(server.killCalls).toHaveLength(0);
+
+      // The changes made while paused trigger a single restart on resume
+      const [resumed] = await roundTrip(path, [{ command: "resume-watch" }]);
+      expect(resumed.result.watchPaused).toBe(false);
+      await waitForStable(100);
+      expect(server.getLastKillSignal()).toBe("SIGTERM");
+      server.simulateExit(0);
+      await waitForSpawns(procManager, 2, 500);
+    } finally {
+      control.close();
+      await teardown();
+    }
+  });
+
+  it("Control socket - default path is derived from the server name", () => {
+    const dir = "/run/user/1000/mcpmon";
+    expect(defaultControlSocketPath("weather", dir)).toBe(join(dir, "mcpmon-weather.sock"));
+    expect(defaultControlSocketPath("my server/v2", dir)).toBe(
+      join(dir, "mcpmon-my_server_v2.sock")
+    );
+  });
+});
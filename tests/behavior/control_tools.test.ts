@@ -0,0 +1,170 @@
+/// <reference path="./global.d.ts" />
+/**
+ * Behavioral test for the control tools
+ *
+ * With controlTools enabled, the proxy adds prefixed tools (restart, server_logs, status,
+ * tool_diff) to the server's tools/list and answers tools/call for them itself. Disabled, the
+ * server's tools pass through untouched.
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { MockManagedProcess } from "../mocks/MockProcessManager.js";
+import { callControlTool } from "../../src/tools.js";
+import type { ControlToolTarget } from "../../src/tools.js";
+import type { ProxyStatus } from "../../src/proxy.js";
+import {
+  collectOutput,
+  getStdinMessages,
+  sendMessage,
+  serveRequests,
+  setupProxyTest,
+  TestProxyConfig,
+  waitForSpawns,
+  waitForStable,
+} from "./test_helper.js";
+
+/**
+ * Answer every request the server received that it has not answered yet
+ */
+function serve(process: MockManagedProcess, answered: Set<unknown>) {
+  serveRequests(process, answered, (message) =>
+    message.method === "tools/list"
+      ? { result: { tools: [{ name: "echo" }, { name: "dev_status" }] } }
+      : message.method === "tools/call"
+        ? { result: { content: [{ type: "text", text: "from server" }] } }
+        : { error: { code: -32601, message: "Method not found" } }
+  );
+}
+
+async function startSession(config: TestProxyConfig) {
+  const context = setupProxyTest(config);
+  const output = collectOutput(context.stdoutReader);
+  collectOutput(context.stderrReader);
+  const answered = new Set<unknown>();
+  const send = (id: number, method: string, params?: object) =>
+    sendMessage(context.stdinWriter, { jsonrpc: "2.0", id, method, params });
+  const serveAll = () => serve(context.procManager.getLastSpawnedProcess()!, answered);
+  const request = async (id: number, method: string, params?: object) => {
+    await send(id, method, params);
+    await waitForStable(30);
+    serveAll();
+    await waitForStable(30);
+    return output.messages().find((message) => message.id === id);
+  };
+
+  context.proxy.start();
+  await waitForSpawns(context.procManager, 1);
+  return { ...context, output, send, serveAll, request };
+}
+
+const STATUS: ProxyStatus = {
+  pid: 42,
+  running: true,
+  restarting: false,
+  generation: 1,
+  startedAt: Date.now(),
+  inflightRequests: 0,
+  bufferedMessages: 0,
+  watchPaused: false,
+  crashLoop: { state: "healthy", recentExits: 0, attempt: 0, nextRetryAt: null },
+};
+
+describe("Test Suite", () => {
+  it("Control tools - off by default, the server's tools pass through", async () => {
+    const { request, procManager, teardown } = await startSession({});
+
+    try {
+      const list = await request(1, "tools/list");
+      expect(list.result.tools.map((t: any) => t.name)).toEqual(["echo", "dev_status"]);
+      const call = await request(2, "tools/call", { name: "mcpmon_status" });
+      expect(call.result.content[0].text).toBe("from server");
+      const forwarded = getStdinMessages(procManager.getLastSpawnedProcess()!);
+      expect(forwarded.map((m) => m.method)).toContain("tools/call");
+    } finally {
+      await teardown();
+    }
+  });
+
+  it("Control tools - prefixed tools are merged and answered by the proxy", async () => {
+    const { request, procManager, teardown } = await startSession({
+      controlTools: true,
+      controlToolPrefix: "dev_",
+    });
+
+    try {
+      const server = procManager.getLastSpawnedProcess()!;
+      server.simulateStderr("booting\nlistening on stdio\n");
+
+      const list = await request(1, "tools/list");
+      expect(list.result.tools.map((t: any) => t.name)).toEqual([
+        "echo",
+        "dev_restart",
+        "dev_server_logs",
+        "dev_status",
+        "dev_tool_diff",
+      ]);
+      expect(list.result.tools[1].inputSchema.properties.reason.type).toBe("string");
+
+      const status = await request(2, "tools/call", { name: "dev_status" });
+      expect(status.result.content[0].text).toContain(`running, PID ${server.pid}`);
+      const logs = await request(3, "tools/call", {
+        name: "dev_server_logs",
+        arguments: { lines: 1 },
+      });
+      expect(logs.result).toEqual({ content: [{ type: "text", text: "listening on stdio" }] });
+      const badLines = await request(4, "tools/call", {
+        name: "dev_server_logs",
+        arguments: { lines: -1 },
+      });
+      expect(badLines.result.isError).toBe(true);
+      const diff = await request(5, "tools/call", { name: "dev_tool_diff" });
+      expect(diff.result.content[0].text).toBe("📋 No reload has happened yet");
+
+      expect(getStdinMessages(server).map((m) => m.method)).not.toContain("tools/call");
+    } finally {
+      await teardown();
+    }
+  });
+
+  it("Control tools - restart answers once the new server is up", async () => {
+    const { send, serveAll, output, procManager, teardown } = await startSession({
+      controlTools: true,
+    });
+
+    try {
+      const server = procManager.getLastSpawnedProcess()!;
+      await waitForStable(50);
+      await send(1, "tools/call", { name: "mcpmon_restart", arguments: { reason: "new tool" } });
+      await waitForStable(50);
+      expect(server.getLastKillSignal()).toBe("SIGTERM");
+      server.simulateExit(0);
+      await waitForSpawns(procManager, 2);
+
+      // The restart refreshes the lists from the new server before answering
+      for (let i = 0; i < 5 && !output.messages().some((m) => m.id === 1); i++) {
+        await waitForStable(50);
+        serveAll();
+      }
+      const restart = output.messages().find((m) => m.id === 1);
+      const newPid = procManager.getLastSpawnedProcess()!.pid;
+      expect(restart.result.isError).toBeUndefined();
+      expect(restart.result.content[0].text).toContain("🔄 Server restarted");
+      expect(restart.result.content[0].text).toContain(`PID ${newPid}, generation 2`);
+    } finally {
+      await teardown();
+    }
+  });
+
+  it("Control tools - a restart that leaves the old server running is an error", async () => {
+    const proxy: ControlToolTarget = {
+      forceRestart: async () => {},
+      getStatus: () => STATUS,
+      getRecentLogs: () => [],
+      getLastDiff: () => null,
+    };
+
+    const result = await callControlTool(proxy, "mcpmon_restart");
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("previous server is still running");
+  });
+});
@@ -0,0 +1,175 @@
+/// <reference path="./global.d.ts" />
+/**
+ * Behavioral test for crash-loop detection
+ *
+ * A server that keeps exiting is restarted with exponential backoff instead of immediately,
+ * and once retries are exhausted the proxy stops spawning until the next file change. A crash
+ * restart takes its turn with every other restart.
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import {
+  collectOutput,
+  getStdinMessages,
+  sendMessage,
+  serveRequests,
+  setupProxyTest,
+  waitForSpawns,
+  waitForStable,
+} from "./test_helper.js";
+
+describe("Test Suite", () => {
+  it("Crash loop - backs off exponentially, then waits for a file change", async () => {
+    const { proxy, procManager, fs, stdinWriter, stdoutReader, teardown } = setupProxyTest({
+      crashThreshold: 2,
+      crashWindow: 5000,
+      crashBackoff: 200,
+      crashMaxRetries: 2,
+    });
+    const output = collectOutput(stdoutReader);
+    const crashLatest = () => procManager.getLastSpawnedProcess()!.simulateExit(1);
+
+    try {
+      proxy.start();
+      await waitForSpawns(procManager, 1);
+      await waitForStable(50);
+      expect(proxy.getCrashLoopState().state).toBe("healthy");
+
+      // First exit: below the threshold, restarted immediately
+      crashLatest();
+      await waitForSpawns(procManager, 2, 300);
+
+      // Second exit within the window: crash loop, first backoff of 200ms
+      crashLatest();
+      await waitForStable(150);
+      expect(procManager.getSpawnCallCount()).toBe(2);
+      const backoff = proxy.getCrashLoopState();
+      expect(backoff.state).toBe("backoff");
+      expect(backoff.attempt).toBe(1);
+      expect(backoff.recentExits).toBe(2);
+      expect(backoff.nextRetryAt).toBeGreaterThan(Date.now());
+      await waitForSpawns(procManager, 3, 500);
+
+      // Third exit: backoff doubles to 400ms
+      crashLatest();
+      await waitForStable(300);
+      expect(procManager.getSpawnCallCount()).toBe(3);
+      await waitForSpawns(procManager, 4, 500);
+      expect(proxy.getCrashLoopState().attempt).toBe(2);
+
+      // Retries exhausted: broken, nothing is spawned and requests fail fast
+      crashLatest();
+      await waitForStable(700);
+      expect(procManager.getSpawnCallCount()).toBe(4);
+      expect(proxy.getCrashLoopState().state).toBe("broken");
+
+      await sendMessage(stdinWriter, { jsonrpc: "2.0", id: 9, method: "tools/list" });
+      await waitForStable(50);
+      const error = output.messages().find((m) => m.id === 9);
+      expect(error.error.code).toBe(-32000);
+      expect(error.error.data.reason).toBe("crash-loop");
+
+      // A file change is the fix: try again from a clean slate
+      fs.triggerFileEvent("/test/server.js", "modify");
+      await waitForSpawns(procManager, 5, 1000);
+      expect(proxy.getCrashLoopState()).toEqual({
+        state: "healthy",
+        recentExits: 0,
+        attempt: 0,
+        nextRetryAt: null,
+      });
+    } finally {
+      await teardown();
+    }
+  });
+
+  it("Crash loop - a forced restart waits for a crash restart that is replaying the session", async () => {
+    const { proxy, procManager, stdinWriter, stdoutReader, teardown } = setupProxyTest();
+    const output = collectOutput(stdoutReader);
+    const events: string[] = [];
+    proxy.on("*", (event) =>
+      events.push(
+        event.type === "restart:complete"
+          ? `${event.type} ${event.trigger} ${event.generation}`
+          : `${event.type}`
+      )
+    );
+
+    try {
+      proxy.start();
+      await waitForSpawns(procManager, 1);
+      const crashed = procManager.getLastSpawnedProcess()!;
+      await sendMessage(stdinWriter, {
+        jsonrpc: "2.0",
+        id: 1,
+        method: "initialize",
+        params: { capabilities: {} },
+      });
+      await waitForStable(30);
+      serveRequests(crashed, new Set(), () => ({ result: {} }));
+      await waitForStable(30);
+
+      // The restarted server is slow to answer the replayed initialize
+      crashed.simulateExit(1);
+      await waitForSpawns(procManager, 2);
+      const slow = procManager.getLastSpawnedProcess()!;
+      const forced = proxy.forceRestart("manual");
+      await sendMessage(stdinWriter, { jsonrpc: "2.0", id: 2, method: "tools/list" });
+      await waitForStable(200);
+      expect(slow.getLastKillSignal()).toBeUndefined();
+      expect(procManager.getSpawnCallCount()).toBe(2);
+
+      // Once it answers, the crash restart completes and then the forced one runs
+      const answered = new Set<unknown>();
+      serveRequests(slow, answered, () => ({ result: {} }));
+      await waitForStable(50);
+      expect(getStdinMessages(slow).map((m) => m.method)).toContain("tools/list");
+      expect(slow.getLastKillSignal()).toBe("SIGTERM");
+      slow.simulateExit(0);
+      await waitForSpawns(procManager, 3);
+      await waitForStable(50);
+      const replacement = procManager.getLastSpawnedProcess()!;
+      for (let i = 0; i < 4; i++) {
+        serveRequests(replacement, answered, () => ({ result: {} }));
+        await waitForStable(30);
+      }
+      await forced;
+
+      // The request reached the restarted server, which was then replaced before answering
+      expect(output.messages().find((m) => m.id === 2)?.error.data.reason).toBe("restarted");
+      expect(events.filter((e) => e.startsWith("restart:"))).toEqual([
+        "restart:scheduled",
+        "restart:start",
+        "restart:scheduled",
+        "restart:complete exit 2",
+        "restart:start",
+        "restart:complete request 3",
+      ]);
+    } finally {
+      await teardown();
+    }
+  });
+
+  it("Crash loop - occasional exits restart immediately", async () => {
+    const { proxy, procManager, teardown } = setupProxyTest({
+      crashThreshold: 3,
+      crashWindow: 5000,
+    });
+
+    try {
+      proxy.start();
+      await waitForSpawns(procManager, 1);
+      await waitForStable(50);
+
+      procManager.getLastSpawnedProcess()!.simulateExit(1);
+      await waitForSpawns(procManager, 2, 300);
+      procManager.getLastSpawnedProcess()!.simulateExit(1);
+      await waitForSpawns(procManager, 3, 300);
+
+      expect(proxy.getCrashLoopState().state).toBe("healthy");
+      expect(proxy.getCrashLoopState().recentExits).toBe(2);
+    } finally {
+      await teardown();
+    }
+  });
+});
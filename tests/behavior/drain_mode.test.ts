@@ -0,0 +1,89 @@
+/// <reference path="./global.d.ts" />
+/**
+ * Behavioral test for drain mode
+ *
+ * With drainTimeout set, a file change must not kill the server while a tool call is
+ * still running: new requests are buffered until the pending response arrives (or the
+ * deadline passes), and only then is the server restarted.
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import {
+  collectOutput,
+  getStdinMessages,
+  sendMessage,
+  setupProxyTest,
+  waitForSpawns,
+  waitForStable,
+} from "./test_helper.js";
+
+describe("Test Suite", () => {
+  it("Drain mode - waits for in-flight tool calls before killing the server", async () => {
+    const { proxy, procManager, fs, stdinWriter, stdoutReader, teardown } = setupProxyTest({
+      restartDelay: 50,
+      drainTimeout: 5000,
+    });
+    const output = collectOutput(stdoutReader);
+
+    try {
+      proxy.start();
+      await waitForSpawns(procManager, 1);
+      await waitForStable(50);
+      const initialProcess = procManager.getLastSpawnedProcess()!;
+
+      await sendMessage(stdinWriter, { jsonrpc: "2.0", id: 1, method: "tools/call", params: {} });
+      await waitForStable(50);
+
+      fs.triggerFileEvent("/test/server.js", "modify");
+      await waitForStable(150);
+
+      // Still draining: server alive, new request held back
+      await sendMessage(stdinWriter, { jsonrpc: "2.0", id: 2, method: "tools/list" });
+      await waitForStable(50);
+      expect(initialProcess.killCalls).toHaveLength(0);
+      expect(getStdinMessages(initialProcess).some((m) => m.id === 2)).toBe(false);
+
+      // Tool call finishes - now the restart proceeds
+      initialProcess.simulateStdout('{"jsonrpc":"2.0","id":1,"result":{"content":[]}}\n');
+      await waitForStable(50);
+      expect(initialProcess.killCalls.length).toBeGreaterThanOrEqual(1);
+      expect(output.messages().find((m) => m.id === 1)?.result).toEqual({ content: [] });
+
+      initialProcess.simulateExit(0);
+      await waitForSpawns(procManager, 2);
+      await waitForStable(150);
+
+      const newProcess = procManager.getLastSpawnedProcess()!;
+      expect(getStdinMessages(newProcess).some((m) => m.id === 2)).toBe(true);
+    } finally {
+      await teardown();
+    }
+  });
+
+  it("Drain mode - kills the server once the drain deadline passes", async () => {
+    const { proxy, procManager, fs, stdinWriter, stdoutReader, teardown } = setupProxyTest({
+      restartDelay: 50,
+      drainTimeout: 200,
+    });
+    collectOutput(stdoutReader);
+
+    try {
+      proxy.start();
+      await waitForSpawns(procManager, 1);
+      await waitForStable(50);
+      const initialProcess = procManager.getLastSpawnedProcess()!;
+
+      await sendMessage(stdinWriter, { jsonrpc: "2.0", id: 1, method: "tools/call", params: {} });
+      await waitForStable(50);
+
+      fs.triggerFileEvent("/test/server.js", "modify");
+      await waitForStable(150);
+      expect(initialProcess.killCalls).toHaveLength(0);
+
+      await waitForStable(200);
+      expect(initialProcess.killCalls.length).toBeGreaterThanOrEqual(1);
+    } finally {
+      await teardown();
+    }
+  });
+});
@@ -0,0 +1,57 @@
+/// <reference path="./global.d.ts" />
+/**
+ * Behavioral test for forced restarts
+ *
+ * forceRestart(reason) restarts the server immediately, bypassing the file-change debounce, for
+ * changes the watcher cannot see. The CLI calls it on SIGHUP and SIGUSR2.
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { setupProxyTest, waitForSpawns, waitForStable } from "./test_helper.js";
+
+describe("Test Suite", () => {
+  it("Force restart - restarts immediately without waiting for the debounce", async () => {
+    const { proxy, procManager, teardown } = setupProxyTest({ restartDelay: 5000 });
+
+    try {
+      proxy.start();
+      await waitForSpawns(procManager, 1);
+      const oldServer = procManager.getLastSpawnedProcess()!;
+      await waitForStable(50);
+
+      proxy.forceRestart("database migration");
+      await waitForStable(20);
+      expect(oldServer.getLastKillSignal()).toBe("SIGTERM");
+      oldServer.simulateExit(0);
+
+      await waitForSpawns(procManager, 2, 500);
+    } finally {
+      await teardown();
+    }
+  });
+
+  it("Force restart - replaces a pending file-change restart", async () => {
+    const { proxy, procManager, fs, teardown } = setupProxyTest({ restartDelay: 200 });
+
+    try {
+      proxy.start();
+      await waitForSpawns(procManager, 1);
+      const oldServer = procManager.getLastSpawnedProcess()!;
+      await waitForStable(50);
+
+      fs.triggerFileEvent("/test/server.js", "modify");
+      await waitForStable(20);
+      proxy.forceRestart("SIGHUP");
+      await waitForStable(20);
+      oldServer.simulateExit(0);
+      await waitForSpawns(procManager, 2, 500);
+
+      // The debounced restart was cleared, so only one new server is started
+      await waitForStable(400);
+      expect(procManager.getSpawnCallCount()).toBe(2);
+      expect(procManager.getLastSpawnedProcess()!.killCalls).toHaveLength(0);
+    } finally {
+      await teardown();
+    }
+  });
+});
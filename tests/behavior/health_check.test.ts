@@ -0,0 +1,80 @@
+/// <reference path="./global.d.ts" />
+/**
+ * Behavioral test for health-check pings
+ *
+ * A server stuck in a loop keeps its PID, so its exit status never resolves. With
+ * healthCheckInterval set, the proxy pings it and restarts it after repeated silence.
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import {
+  collectOutput,
+  getStdinMessages,
+  sendMessage,
+  setupProxyTest,
+  waitForSpawns,
+  waitForStable,
+} from "./test_helper.js";
+
+const HEALTH_CONFIG = {
+  healthCheckInterval: 50,
+  healthCheckTimeout: 50,
+  healthCheckFailures: 2,
+};
+
+describe("Test Suite", () => {
+  it("Health check - hung server is killed and restarted", async () => {
+    const { proxy, procManager, stdinWriter, stdoutReader, teardown } =
+      setupProxyTest(HEALTH_CONFIG);
+    const output = collectOutput(stdoutReader);
+
+    try {
+      proxy.start();
+      await waitForSpawns(procManager, 1);
+      const hung = procManager.getLastSpawnedProcess()!;
+
+      await sendMessage(stdinWriter, { jsonrpc: "2.0", id: 1, method: "tools/call", params: {} });
+
+      // Pings go unanswered until the failure threshold is reached
+      await waitForStable(400);
+      expect(getStdinMessages(hung).filter((m) => m.method === "ping").length).toBeGreaterThan(1);
+      expect(hung.getLastKillSignal()).toBe("SIGKILL");
+
+      hung.simulateExit(null, "SIGKILL");
+      await waitForSpawns(procManager, 2, 500);
+      await waitForStable(50);
+
+      const error = output.messages().find((m) => m.id === 1);
+      expect(error.error.code).toBe(-32000);
+      expect(error.error.data.reason).toBe("stopped responding to 2 health check pings");
+    } finally {
+      await teardown();
+    }
+  });
+
+  it("Health check - responsive server is left alone", async () => {
+    const { proxy, procManager, teardown } = setupProxyTest(HEALTH_CONFIG);
+
+    try {
+      proxy.start();
+      await waitForSpawns(procManager, 1);
+      const server = procManager.getLastSpawnedProcess()!;
+
+      const answered = new Set<unknown>();
+      for (let i = 0; i < 40; i++) {
+        await waitForStable(10);
+        for (const ping of getStdinMessages(server).filter((m) => m.method === "ping")) {
+          if (answered.has(ping.id)) continue;
+          answered.add(ping.id);
+          server.simulateStdout(JSON.stringify({ jsonrpc: "2.0", id: ping.id, result: {} }) + "\n");
+        }
+      }
+
+      expect(answered.size).toBeGreaterThan(2);
+      expect(server.killCalls).toHaveLength(0);
+      expect(procManager.getSpawnCallCount()).toBe(1);
+    } finally {
+      await teardown();
+    }
+  });
+});
@@ -0,0 +1,141 @@
+/// <reference path="./global.d.ts" />
+/**
+ * Behavioral test for client requests in flight when the server dies
+ *
+ * A request the old server never answered must either be re-sent to the new server
+ * (opt-in via retryMethods) or answered with a JSON-RPC error - never silently lost.
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import {
+  collectOutput,
+  getStdinMessages,
+  sendMessage,
+  setupProxyTest,
+  simulateRestart,
+  waitForSpawns,
+  waitForStable,
+} from "./test_helper.js";
+
+describe("Test Suite", () => {
+  it("In-flight requests - answered with an error when the server restarts", async () => {
+    const { proxy, procManager, fs, stdinWriter, stdoutReader, teardown } = setupProxyTest({
+      restartDelay: 50,
+    });
+    const output = collectOutput(stdoutReader);
+
+    try {
+      proxy.start();
+      await waitForSpawns(procManager, 1);
+      await waitForStable(50);
+
+      await sendMessage(stdinWriter, { jsonrpc: "2.0", id: 7, method: "tools/call", params: {} });
+      await waitForStable(50);
+
+      await simulateRestart(procManager, fs);
+      await waitForStable(100);
+
+      const error = output.messages().find((m) => m.id === 7);
+      expect(error).toBeTruthy();
+      expect(error.error.code).toBe(-32000);
+      expect(error.error.message).toContain("restarted");
+    } finally {
+      await teardown();
+    }
+  });
+
+  it("In-flight requests - idempotent methods are re-sent to the new server", async () => {
+    const { proxy, procManager, fs, stdinWriter, stdoutReader, teardown } = setupProxyTest({
+      restartDelay: 50,
+      retryMethods: ["resources/read"],
+    });
+    const output = collectOutput(stdoutReader);
+
+    try {
+      proxy.start();
+      await waitForSpawns(procManager, 1);
+      await waitForStable(50);
+
+      await sendMessage(stdinWriter, {
+        jsonrpc: "2.0",
+        id: 8,
+        method: "resources/read",
+        params: { uri: "file:///a" },
+      });
+      await waitForStable(50);
+
+      await simulateRestart(procManager, fs);
+      const newProcess = procManager.getLastSpawnedProcess()!;
+      await waitForStable(150);
+
+      const resent = getStdinMessages(newProcess).find((m) => m.id === 8);
+      expect(resent?.method).toBe("resources/read");
+      expect(output.messages().some((m) => m.id === 8)).toBe(false);
+
+      newProcess.simulateStdout('{"jsonrpc":"2.0","id":8,"result":{"contents":[]}}\n');
+      await waitForStable(50);
+      expect(output.messages().find((m) => m.id === 8)?.result).toEqual({ contents: [] });
+    } finally {
+      await teardown();
+    }
+  });
+
+  it("In-flight requests - answered with an error when the server crashes", async () => {
+    const { proxy, procManager, stdinWriter, stdoutReader, teardown } = setupProxyTest({
+      restartDelay: 50,
+    });
+    const output = collectOutput(stdoutReader);
+
+    try {
+      proxy.start();
+      await waitForSpawns(procManager, 1);
+      await waitForStable(50);
+
+      await sendMessage(stdinWriter, { jsonrpc: "2.0", id: 9, method: "tools/call", params: {} });
+      await waitForStable(50);
+
+      procManager.getLastSpawnedProcess()!.simulateExit(1);
+      await waitForSpawns(procManager, 2);
+      await waitForStable(50);
+
+      const error = output.messages().find((m) => m.id === 9);
+      expect(error?.error.message).toContain("exited with code 1");
+    } finally {
+      await teardown();
+    }
+  });
+
+  it("In-flight requests - retried requests fail when the crash loop gives up", async () => {
+    const { proxy, procManager, stdinWriter, stdoutReader, teardown } = setupProxyTest({
+      retryMethods: ["resources/read"],
+      crashThreshold: 1,
+      crashMaxRetries: 0,
+    });
+    const output = collectOutput(stdoutReader);
+
+    try {
+      proxy.start();
+      await waitForSpawns(procManager, 1);
+      await waitForStable(50);
+
+      await sendMessage(stdinWriter, {
+        jsonrpc: "2.0",
+        id: 10,
+        method: "resources/read",
+        params: { uri: "file:///a" },
+      });
+      await waitForStable(50);
+
+      // No restart is coming, so the request held for it is answered instead of hanging
+      procManager.getLastSpawnedProcess()!.simulateExit(1);
+      await waitForStable(100);
+      expect(proxy.getCrashLoopState().state).toBe("broken");
+      expect(procManager.getSpawnCallCount()).toBe(1);
+      const error = output.messages().find((m) => m.id === 10);
+      expect(error?.error.code).toBe(-32000);
+      expect(error?.error.data.reason).toBe("crash-loop");
+    } finally {
+      await teardown();
+    }
+  });
+});
@@ -0,0 +1,153 @@
+/// <reference path="./global.d.ts" />
+/**
+ * Behavioral test for the instance registry
+ *
+ * Every mcpmon records itself in a per-user runtime directory so mcpmon ps/restart/logs/stop
+ * can find instances launched by MCP clients. Entries of dead processes, and of PIDs that now
+ * belong to another process, are cleaned up on read and never signalled.
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { spawnSync } from "child_process";
+import { chmodSync, existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { createServer } from "net";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  formatInstances,
+  InstanceEntry,
+  InstanceRegistry,
+  processStartTime,
+} from "../../src/registry.js";
+
+function entry(pid: number, name: string, startedAt = Date.now()): InstanceEntry {
+  return {
+    pid,
+    name,
+    command: "node",
+    args: [`${name}.js`],
+    watchTargets: [`/srv/${name}.js`],
+    cwd: "/srv",
+    startedAt,
+    controlSocket: null,
+    processStart: null,
+  };
+}
+
+/** A PID that belonged to a process which has already exited */
+function deadPid(): number {
+  return spawnSync(process.execPath, ["-e", ""]).pid!;
+}
+
+describe("Test Suite", () => {
+  it("Instance registry - lists live instances and removes stale entries", () => {
+    const dir = mkdtempSync(join(tmpdir(), "mcpmon-registry-"));
+    const registry = new InstanceRegistry(dir);
+
+    try {
+      const stalePid = deadPid();
+      registry.register(entry(process.pid, "weather", 1000));
+      registry.register({ ...entry(stalePid, "crashed"), controlSocket: join(dir, "stale.sock") });
+      writeFileSync(join(dir, "stale.sock"), "");
+      writeFileSync(join(dir, "garbage.json"), "{not json");
+
+      expect(registry.list().map((e) => e.name)).toEqual(["weather"]);
+      expect(existsSync(join(dir, `${stalePid}.json`))).toBe(false);
+      expect(existsSync(join(dir, "stale.sock"))).toBe(false);
+
+      registry.unregister(process.pid);
+      expect(registry.list()).toEqual([]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("Instance registry - finds instances by name or PID", () => {
+    const dir = mkdtempSync(join(tmpdir(), "mcpmon-registry-"));
+    const registry = new InstanceRegistry(dir);
+
+    try {
+      registry.register(entry(process.pid, "weather"));
+      expect(registry.find("weather").pid).toBe(process.pid);
+      expect(registry.find(String(process.pid)).name).toBe("weather");
+      expect(() => registry.find("nope")).toThrow('No running mcpmon instance "nope"');
+
+      // Two live instances with the same name need a PID
+      registry.register(entry(process.ppid, "weather"));
+      expect(() => registry.find("weather")).toThrow("matches several instances");
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("Instance registry - treats a reused PID as stale", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "mcpmon-registry-"));
+    const registry = new InstanceRegistry(dir);
+    const path = join(dir, `${process.pid}.json`);
+
+    try {
+      registry.register(entry(process.pid, "weather"));
+      const recorded: InstanceEntry = JSON.parse(readFileSync(path, "utf8"));
+      expect(recorded.processStart).toBe(processStartTime(process.pid));
+      expect(await registry.confirm(recorded)).toBe(true);
+
+      // The PID now belongs to a process that started at another time
+      writeFileSync(path, JSON.stringify({ ...recorded, processStart: "0" }));
+      expect(registry.list()).toEqual([]);
+      expect(existsSync(path)).toBe(false);
+      expect(await registry.confirm({ ...recorded, processStart: "0" })).toBe(false);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("Instance registry - confirms instances without a start time by their control socket", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "mcpmon-registry-"));
+    const registry = new InstanceRegistry(dir);
+    const socketPath = join(dir, "weather.sock");
+    const server = createServer();
+
+    try {
+      const weather = { ...entry(process.pid, "weather"), controlSocket: socketPath };
+      registry.register(weather);
+      expect(await registry.confirm(weather)).toBe(false);
+      expect(existsSync(join(dir, `${process.pid}.json`))).toBe(false);
+
+      await new Promise<void>((resolve) => server.listen(socketPath, resolve));
+      expect(await registry.confirm(weather)).toBe(true);
+    } finally {
+      server.close();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("Instance registry - refuses a runtime directory other users can access", () => {
+    const dir = mkdtempSync(join(tmpdir(), "mcpmon-registry-"));
+    const registry = new InstanceRegistry(dir);
+
+    try {
+      chmodSync(dir, 0o755);
+      expect(() => registry.register(entry(process.pid, "weather"))).toThrow(
+        "must be a directory owned by the current user with mode 0700"
+      );
+      expect(existsSync(join(dir, `${process.pid}.json`))).toBe(false);
+
+      chmodSync(dir, 0o700);
+      registry.register(entry(process.pid, "weather"));
+      chmodSync(dir, 0o777);
+      expect(() => registry.list()).toThrow("owned by the current user");
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("Instance registry - formats a ps table", () => {
+    const table = formatInstances([entry(4242, "weather", Date.now() - 125000)]);
+
+    expect(table.split("\n")).toEqual([
+      "PID   NAME     UPTIME  COMMAND          WATCHING",
+      "4242  weather  2m 5s   node weather.js  /srv/weather.js",
+    ]);
+    expect(formatInstances([])).toBe("No running mcpmon instances");
+  });
+});
@@ -0,0 +1,88 @@
+/// <reference path="./global.d.ts" />
+/**
+ * Behavioral test for proxy-originated requests
+ *
+ * The proxy sends its own initialize and tools/list requests to a freshly restarted server.
+ * Those requests must use an id namespace the client can never collide with, and their
+ * responses must be consumed by the proxy instead of being forwarded to the client.
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import {
+  collectOutput,
+  getStdinMessages,
+  sendMessage,
+  setupProxyTest,
+  simulateRestart,
+  waitForSpawns,
+  waitForStable,
+} from "./test_helper.js";
+
+describe("Test Suite", () => {
+  it("Internal requests - use a separate id namespace and are not forwarded", async () => {
+    const { proxy, procManager, fs, stdinWriter, stdoutReader, teardown } = setupProxyTest({
+      restartDelay: 100,
+    });
+    const output = collectOutput(stdoutReader);
+
+    try {
+      proxy.start();
+      await waitForSpawns(procManager, 1);
+      const initialProcess = procManager.getLastSpawnedProcess()!;
+
+      // Client initializes with a numeric id, exactly like a real client would
+      const initRequest = {
+        jsonrpc: "2.0",
+        id: 1,
+        method: "initialize",
+        params: { protocolVersion: "2024-11-05", capabilities: {}, clientInfo: { name: "c" } },
+      };
+      await sendMessage(stdinWriter, initRequest);
+      initialProcess.simulateStdout('{"jsonrpc":"2.0","id":1,"result":{"capabilities":{}}}\n');
+      await waitForStable(50);
+
+      await simulateRestart(procManager, fs);
+      const newProcess = procManager.getLastSpawnedProcess()!;
+      await waitForStable(150);
+
+      // Proxy replays initialize with its own string id
+      const replayedInit = getStdinMessages(newProcess).find((m) => m.method === "initialize");
+      expect(replayedInit).toBeTruthy();
+      expect(typeof replayedInit.id).toBe("string");
+      expect(replayedInit.id).not.toBe(1);
+
+      newProcess.simulateStdout(
+        JSON.stringify({
+          jsonrpc: "2.0",
+          id: replayedInit.id,
+          result: { capabilities: { tools: {} } },
+        }) + "\n"
+      );
+      await waitForStable(50);
+
+      const toolsRequest = getStdinMessages(newProcess).find((m) => m.method === "tools/list");
+      expect(toolsRequest).toBeTruthy();
+      expect(toolsRequest.id).not.toBe(replayedInit.id);
+
+      newProcess.simulateStdout(
+        JSON.stringify({ jsonrpc: "2.0", id: toolsRequest.id, result: { tools: [] } }) + "\n"
+      );
+      // A late response to a request that already timed out must be swallowed too
+      newProcess.simulateStdout(
+        JSON.stringify({ jsonrpc: "2.0", id: "mcpmon-internal-999", result: {} }) + "\n"
+      );
+      // Ordinary server traffic keeps flowing to the client
+      newProcess.simulateStdout('{"jsonrpc":"2.0","id":"client-7","result":{}}\n');
+      await waitForStable(100);
+
+      const forwardedIds = output.messages().map((m) => m.id);
+      expect(forwardedIds).toContain(1);
+      expect(forwardedIds).toContain("client-7");
+      expect(forwardedIds).not.toContain(replayedInit.id);
+      expect(forwardedIds).not.toContain(toolsRequest.id);
+      expect(forwardedIds).not.toContain("mcpmon-internal-999");
+    } finally {
+      await teardown();
+    }
+  });
+});
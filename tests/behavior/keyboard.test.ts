@@ -0,0 +1,65 @@
+/// <reference path="./global.d.ts" />
+/**
+ * Behavioral test for interactive keyboard commands
+ *
+ * The CLI reads keystrokes from /dev/tty and hands them to KeyboardControls: r restarts,
+ * l prints the last reload diff, s prints status, c clears the screen and q quits.
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { KEYBOARD_HELP, KeyboardControls } from "../../src/keyboard.js";
+import { setupProxyTest, waitForSpawns, waitForStable } from "./test_helper.js";
+
+describe("Test Suite", () => {
+  it("Keyboard - status, diff, clear and restart keys", async () => {
+    const { proxy, procManager, teardown } = setupProxyTest();
+    const output: string[] = [];
+    const controls = new KeyboardControls(
+      proxy,
+      (text) => output.push(text),
+      () => {}
+    );
+
+    try {
+      proxy.start();
+      await waitForSpawns(procManager, 1);
+      const server = procManager.getLastSpawnedProcess()!;
+      await waitForStable(50);
+
+      await controls.handleInput("slxc");
+      expect(output[0]).toContain(`running, PID ${server.pid}, generation 1`);
+      expect(output[0]).toContain("Crash loop: healthy");
+      expect(output[1]).toBe("📋 No reload has happened yet");
+      expect(output[2]).toBe("\x1b[2J\x1b[3J\x1b[H" + KEYBOARD_HELP);
+      expect(output).toHaveLength(3);
+
+      await controls.handleKey("r");
+      await waitForStable(20);
+      expect(server.getLastKillSignal()).toBe("SIGTERM");
+      server.simulateExit(0);
+      await waitForSpawns(procManager, 2, 500);
+    } finally {
+      await teardown();
+    }
+  });
+
+  it("Keyboard - q and Ctrl+C quit", async () => {
+    const { proxy, teardown } = setupProxyTest();
+    let quits = 0;
+    const controls = new KeyboardControls(
+      proxy,
+      () => {},
+      () => {
+        quits++;
+      }
+    );
+
+    try {
+      await controls.handleKey("q");
+      await controls.handleKey("\x03");
+      expect(quits).toBe(2);
+    } finally {
+      await teardown();
+    }
+  });
+});
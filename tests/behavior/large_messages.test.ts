@@ -0,0 +1,142 @@
+/// <reference path="./global.d.ts" />
+/**
+ * Behavioral test and benchmark for large JSON-RPC messages
+ *
+ * Multi-megabyte tool results (base64 images, large resource reads) arrive in many small
+ * chunks. Framing must stay linear in the message size, lines must be forwarded byte-for-byte,
+ * and the proxy must route responses by their envelope without parsing the payload.
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { LineFramer, peekEnvelope } from "../../src/framing.js";
+import {
+  collectOutput,
+  getStdinMessages,
+  sendMessage,
+  setupProxyTest,
+  waitForSpawns,
+  waitForStable,
+} from "./test_helper.js";
+
+const TEN_MB = 10 * 1024 * 1024;
+const CHUNK_SIZE = 64 * 1024;
+// Generous enough for slow CI machines; quadratic framing takes many times longer
+const BUDGET_MS = 2000;
+
+/**
+ * A tools/call response carrying a ~10MB base64 image, as one newline-terminated line
+ */
+function largeToolResult(id: number | string): Uint8Array {
+  const data = "A".repeat(TEN_MB);
+  const message = {
+    result: {
+      content: [{ type: "image", data, mimeType: "image/png" }],
+      structured: { nested: [1, 2, { text: 'quote " and } brace' }] },
+    },
+    jsonrpc: "2.0",
+    id,
+  };
+  return new TextEncoder().encode(JSON.stringify(message) + "\n");
+}
+
+function* chunksOf(bytes: Uint8Array, size: number) {
+  for (let offset = 0; offset < bytes.length; offset += size) {
+    yield bytes.subarray(offset, offset + size);
+  }
+}
+
+describe("Test Suite", () => {
+  it("Large messages - frames lines across chunk boundaries", () => {
+    const framer = new LineFramer();
+    const encoder = new TextEncoder();
+    const decoder = new TextDecoder();
+
+    const lines = [
+      ...framer.push(encoder.encode('{"id":1}\n{"id"')),
+      ...framer.push(encoder.encode(":2")),
+      ...framer.push(encoder.encode('}\n\n{"id":3}\n{"partial"')),
+    ];
+
+    expect(lines.map((line) => decoder.decode(line))).toEqual([
+      '{"id":1}\n',
+      '{"id":2}\n',
+      "\n",
+      '{"id":3}\n',
+    ]);
+  });
+
+  it("Large messages - reads the envelope without parsing nested values", () => {
+    const encoder = new TextEncoder();
+    const peek = (text: string) => peekEnvelope(encoder.encode(text));
+
+    expect(peek('{"jsonrpc":"2.0","id":7,"result":{"id":99,"s":"\\"id\\":1"}}')).toEqual({
+      id: 7,
+      jsonrpc: "2.0",
+      hasMethod: false,
+    });
+    expect(peek('{ "result" : [ "}" , { "id" : 1 } ] , "id" : "abc" }\n')).toEqual({
+      id: "abc",
+      hasMethod: false,
+    });
+    expect(peek('{"jsonrpc":"2.0","method":"notifications/progress"}')).toEqual({
+      jsonrpc: "2.0",
+      hasMethod: true,
+    });
+    expect(peek('{"id":null,"error":{"code":-32700}}')).toEqual({ id: null, hasMethod: false });
+    expect(peek("not json")).toBeNull();
+    expect(peek('{"id":1,"result":')).toBeNull();
+  });
+
+  it("Large messages - 10MB line in 64KB chunks frames and peeks in linear time", () => {
+    const payload = largeToolResult(42);
+    const framer = new LineFramer();
+
+    const start = performance.now();
+    const lines: Uint8Array[] = [];
+    for (const chunk of chunksOf(payload, CHUNK_SIZE)) {
+      lines.push(...framer.push(chunk));
+    }
+    const envelope = peekEnvelope(lines[0]);
+    const elapsed = performance.now() - start;
+
+    expect(lines).toHaveLength(1);
+    // Compare as buffers: deep equality on 10MB typed arrays is itself a memory hog
+    expect(Buffer.from(lines[0]).equals(payload)).toBe(true);
+    expect(envelope).toEqual({ id: 42, jsonrpc: "2.0", hasMethod: false });
+    expect(elapsed).toBeLessThan(BUDGET_MS);
+  });
+
+  it("Large messages - proxy forwards a 10MB tool result byte-for-byte", async () => {
+    const { proxy, procManager, stdinWriter, stdoutReader, teardown } = setupProxyTest({
+      restartDelay: 50,
+    });
+    const output = collectOutput(stdoutReader);
+
+    try {
+      proxy.start();
+      await waitForSpawns(procManager, 1);
+      const server = procManager.getLastSpawnedProcess()!;
+
+      const request = { jsonrpc: "2.0", id: 42, method: "tools/call", params: { name: "shot" } };
+      await sendMessage(stdinWriter, request);
+      await waitForStable(50);
+      expect(getStdinMessages(server)).toEqual([request]);
+
+      const payload = largeToolResult(42);
+      const start = performance.now();
+      for (const chunk of chunksOf(payload, CHUNK_SIZE)) {
+        server.simulateStdout(chunk);
+      }
+      while (output.lines.length === 0 && performance.now() - start < BUDGET_MS * 2) {
+        await waitForStable(10);
+      }
+      const elapsed = performance.now() - start;
+
+      expect(output.lines).toHaveLength(1);
+      expect(Buffer.from(output.lines[0] + "\n").equals(payload)).toBe(true);
+      expect(elapsed).toBeLessThan(BUDGET_MS);
+    } finally {
+      await teardown();
+    }
+  });
+});
@@ -0,0 +1,168 @@
+/// <reference path="./global.d.ts" />
+/**
+ * Behavioral test for the lifecycle event API
+ *
+ * Library users observe the proxy through proxy.on(type, listener): server spawns and exits,
+ * scheduled, started, completed and failed restarts, file changes, the messages forwarded in
+ * both directions and tool list changes, each with a structured payload.
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import type { ProxyEvent } from "../../src/events.js";
+import {
+  collectOutput,
+  sendMessage,
+  serveRequests,
+  setupProxyTest,
+  TestProxyConfig,
+  waitForSpawns,
+  waitForStable,
+} from "./test_helper.js";
+
+async function startSession(config: TestProxyConfig = {}) {
+  const context = setupProxyTest(config);
+  const output = collectOutput(context.stdoutReader);
+  collectOutput(context.stderrReader);
+  const events: ProxyEvent[] = [];
+  context.proxy.on("*", (event) => events.push(event));
+
+  // Every server generation offers one more tool than the previous one
+  const answered = new Set<unknown>();
+  const serveAll = () => {
+    const server = context.procManager.getLastSpawnedProcess()!;
+    const count = context.procManager.spawnCalls.length;
+    serveRequests(server, answered, (message) =>
+      message.method === "tools/list"
+        ? { result: { tools: Array.from({ length: count }, (_, i) => ({ name: `tool${i}` })) } }
+        : { error: { code: -32601, message: "Method not found" } }
+    );
+  };
+  const request = async (id: number, method: string, params?: object) => {
+    await sendMessage(context.stdinWriter, { jsonrpc: "2.0", id, method, params });
+    await waitForStable(30);
+    serveAll();
+    await waitForStable(30);
+    return output.messages().find((message) => message.id === id);
+  };
+
+  context.proxy.start();
+  await waitForSpawns(context.procManager, 1);
+  await waitForStable(50);
+  return { ...context, events, serveAll, request };
+}
+
+describe("Test Suite", () => {
+  it("Lifecycle events - a file change restart from change to restart:complete", async () => {
+    const { proxy, procManager, fs, events, serveAll, request, teardown } = await startSession();
+
+    try {
+      const first = procManager.getLastSpawnedProcess()!;
+      await request(1, "tools/list");
+      const toolChanges: ProxyEvent<"tools:changed">[] = [];
+      proxy.on("tools:changed", (event) => toolChanges.push(event));
+
+      fs.triggerFileEvent("/test/server.js", "modify");
+      await waitForStable(100);
+      first.simulateExit(0);
+      await waitForSpawns(procManager, 2);
+      for (let i = 0; i < 5 && !events.some((e) => e.type === "restart:complete"); i++) {
+        await waitForStable(50);
+        serveAll();
+      }
+
+      const lifecycle = events.filter((e) => !e.type.startsWith("message:"));
+      expect(lifecycle.map((e) => e.type)).toEqual([
+        "server:spawn",
+        "change",
+        "restart:scheduled",
+        "restart:start",
+        "server:exit",
+        "server:spawn",
+        "tools:changed",
+        "restart:complete",
+      ]);
+      expect(lifecycle[1]).toMatchObject({
+        type: "change",
+        changeType: "modify",
+        path: "/test/server.js",
+        action: "restart",
+        time: expect.any(Number),
+      });
+      expect(lifecycle[2]).toMatchObject({ trigger: "change", delayMs: 50 });
+      expect(lifecycle[4]).toMatchObject({ pid: first.pid, generation: 1, expected: true });
+      const second = procManager.getLastSpawnedProcess()!;
+      expect(lifecycle[5]).toMatchObject({
+        pid: second.pid,
+        generation: 2,
+        command: "node",
+        candidate: false,
+      });
+      expect(toolChanges).toHaveLength(1);
+      expect(toolChanges[0].diff.added).toEqual(["tool1"]);
+      expect(lifecycle[7]).toMatchObject({
+        reason: "File change detected",
+        trigger: "change",
+        pid: second.pid,
+        generation: 2,
+        durationMs: expect.any(Number),
+      });
+    } finally {
+      await teardown();
+    }
+  });
+
+  it("Lifecycle events - a crash is an unexpected exit followed by an exit restart", async () => {
+    const { procManager, events, teardown } = await startSession();
+
+    try {
+      const crashed = procManager.getLastSpawnedProcess()!;
+      crashed.simulateExit(1);
+      await waitForSpawns(procManager, 2);
+      await waitForStable(50);
+
+      expect(events.map((e) => e.type)).toEqual([
+        "server:spawn",
+        "server:exit",
+        "restart:scheduled",
+        "restart:start",
+        "server:spawn",
+        "restart:complete",
+      ]);
+      expect(events[0]).toMatchObject({ pid: crashed.pid, generation: 1, candidate: false });
+      expect(events[1]).toMatchObject({ pid: crashed.pid, code: 1, expected: false });
+      expect(events[2]).toMatchObject({
+        reason: "exited with code 1",
+        trigger: "exit",
+        delayMs: 0,
+      });
+      expect(events[5]).toMatchObject({ trigger: "exit", generation: 2 });
+    } finally {
+      await teardown();
+    }
+  });
+
+  it("Lifecycle events - forwarded messages and listener removal", async () => {
+    const { proxy, request, teardown } = await startSession();
+
+    try {
+      const messages: string[] = [];
+      const stop = proxy.on("message:client", (event) =>
+        messages.push(`client ${event.message.method}`)
+      );
+      proxy.on("message:server", (event) => messages.push(`server ${event.message.id}`));
+      // A listener that throws never disturbs forwarding
+      proxy.on("message:server", () => {
+        throw new Error("listener bug");
+      });
+
+      const first = await request(1, "tools/list");
+      expect(first.result.tools).toHaveLength(1);
+      stop();
+      await request(2, "tools/list");
+
+      expect(messages).toEqual(["client tools/list", "server 1", "server 2"]);
+    } finally {
+      await teardown();
+    }
+  });
+});
@@ -0,0 +1,163 @@
+/// <reference path="./global.d.ts" />
+/**
+ * Behavioral test for list_changed notifications after restart
+ *
+ * The proxy refreshes tools, resources, resource templates and prompts from the new server,
+ * compares them with what the client saw before, and only announces the lists that changed -
+ * as standard notifications without params, and only where the client negotiated listChanged.
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { MockManagedProcess } from "../mocks/MockProcessManager.js";
+import {
+  collectOutput,
+  sendMessage,
+  serveRequests,
+  setupProxyTest,
+  waitForSpawns,
+  waitForStable,
+} from "./test_helper.js";
+
+type Lists = Record<string, unknown>;
+
+const LIST_FIELDS: Record<string, string> = {
+  "tools/list": "tools",
+  "resources/list": "resources",
+  "resources/templates/list": "resourceTemplates",
+  "prompts/list": "prompts",
+};
+
+/**
+ * Act as an MCP server: answer client requests and proxy-originated requests alike
+ */
+function serve(
+  process: MockManagedProcess,
+  capabilities: object,
+  lists: Lists,
+  answered: Set<unknown>
+) {
+  serveRequests(process, answered, (message) => ({
+    result:
+      message.method === "initialize"
+        ? { protocolVersion: "2024-11-05", capabilities }
+        : { [LIST_FIELDS[message.method]]: lists[message.method] ?? [] },
+  }));
+}
+
+async function runScenario(clientCapabilities: object, before: Lists, after: Lists) {
+  const { proxy, procManager, fs, stdinWriter, stdoutReader, teardown } = setupProxyTest({
+    restartDelay: 50,
+  });
+  const output = collectOutput(stdoutReader);
+
+  try {
+    proxy.start();
+    await waitForSpawns(procManager, 1);
+    await waitForStable(50);
+    const initialProcess = procManager.getLastSpawnedProcess()!;
+    const answered = new Set<unknown>();
+
+    // Client session: initialize, then look at every list once
+    await sendMessage(stdinWriter, {
+      jsonrpc: "2.0",
+      id: 1,
+      method: "initialize",
+      params: { capabilities: {} },
+    });
+    Object.keys(LIST_FIELDS).forEach((method, i) =>
+      sendMessage(stdinWriter, { jsonrpc: "2.0", id: i + 2, method })
+    );
+    await waitForStable(50);
+    serve(initialProcess, clientCapabilities, before, answered);
+    await waitForStable(50);
+
+    fs.triggerFileEvent("/test/server.js", "modify");
+    await waitForStable(100);
+    initialProcess.simulateExit(0);
+    await waitForSpawns(procManager, 2);
+    const newProcess = procManager.getLastSpawnedProcess()!;
+    for (let i = 0; i < 6; i++) {
+      await waitForStable(50);
+      serve(newProcess, clientCapabilities, after, answered);
+    }
+
+    return {
+      notifications: output.messages().filter((m) => m.method?.endsWith("/list_changed")),
+      diff: proxy.getLastDiff(),
+    };
+  } finally {
+    await teardown();
+  }
+}
+
+const ALL_LIST_CHANGED = {
+  tools: { listChanged: true },
+  resources: { listChanged: true },
+  prompts: { listChanged: true },
+};
+
+describe("Test Suite", () => {
+  it("List changes - only changed lists are announced, without params", async () => {
+    const { notifications } = await runScenario(
+      ALL_LIST_CHANGED,
+      { "tools/list": [{ name: "echo" }], "prompts/list": [{ name: "greet" }] },
+      { "tools/list": [{ name: "echo" }], "prompts/list": [{ name: "greet" }, { name: "bye" }] }
+    );
+
+    expect(notifications).toEqual([
+      { jsonrpc: "2.0", method: "notifications/prompts/list_changed" },
+    ]);
+  });
+
+  it("List changes - resource templates trigger resources/list_changed", async () => {
+    const { notifications } = await runScenario(
+      ALL_LIST_CHANGED,
+      { "resources/templates/list": [] },
+      { "resources/templates/list": [{ uriTemplate: "file:///{path}", name: "files" }] }
+    );
+
+    expect(notifications.map((m) => m.method)).toEqual(["notifications/resources/list_changed"]);
+  });
+
+  it("List changes - respects negotiated listChanged capabilities", async () => {
+    const { notifications } = await runScenario(
+      { tools: { listChanged: true }, prompts: {} },
+      { "tools/list": [{ name: "echo" }], "prompts/list": [] },
+      { "tools/list": [{ name: "echo2" }], "prompts/list": [{ name: "greet" }] }
+    );
+
+    expect(notifications.map((m) => m.method)).toEqual(["notifications/tools/list_changed"]);
+  });
+
+  it("List changes - reload diff is available through the API", async () => {
+    const { diff } = await runScenario(
+      ALL_LIST_CHANGED,
+      {
+        "tools/list": [
+          { name: "echo", description: "Echo" },
+          { name: "old", description: "Same" },
+        ],
+      },
+      {
+        "tools/list": [
+          { name: "echo", description: "Echo text" },
+          { name: "new", description: "Same" },
+        ],
+      }
+    );
+
+    expect(diff?.generation).toBe(2);
+    expect(diff?.tools).toEqual({
+      added: [],
+      removed: [],
+      renamed: [{ from: "old", to: "new" }],
+      changed: [
+        {
+          name: "echo",
+          changes: [{ path: "description", type: "changed", before: "Echo", after: "Echo text" }],
+        },
+      ],
+    });
+    expect(diff?.prompts).toEqual({ added: [], removed: [], renamed: [], changed: [] });
+  });
+});
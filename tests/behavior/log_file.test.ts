@@ -0,0 +1,104 @@
+/// <reference path="./global.d.ts" />
+/**
+ * Behavioral test for persistent log files
+ *
+ * With a log sink (--log-file), the proxy copies its own log and the server's stderr to two
+ * channels while stderr is still forwarded as is. LogFiles writes each channel to a file of its
+ * own, every line prefixed with a timestamp and a PID, and rotates the files by size.
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { LogFiles, RotatingLogFile, parseByteSize, serverLogPath } from "../../src/log-file.js";
+import type { LogSink } from "../../src/interfaces.js";
+import { collectOutput, setupProxyTest, waitForSpawns, waitForStable } from "./test_helper.js";
+
+/** A LogSink that keeps what each channel received */
+function recordingSink() {
+  const proxy: string[] = [];
+  const server: string[] = [];
+  const sink: LogSink = {
+    proxy: (level, text) => proxy.push(`${level} ${text}`),
+    server: (text, pid) => server.push(`${pid} ${text}`),
+  };
+  return { sink, proxy, server };
+}
+
+describe("Test Suite", () => {
+  it("Log file - proxy log and server stderr reach separate channels, stderr is unchanged", async () => {
+    const { sink, proxy: proxyLines, server: serverLines } = recordingSink();
+    const { proxy, procManager, stderrReader, teardown } = setupProxyTest({}, { logSink: sink });
+    const stderr = collectOutput(stderrReader);
+
+    try {
+      proxy.start();
+      await waitForSpawns(procManager, 1);
+      const server = procManager.getLastSpawnedProcess()!;
+      server.simulateStderr("listening\npartial ");
+      server.simulateStderr("line\n\n");
+      await waitForStable(50);
+
+      expect(serverLines).toEqual([`${server.pid} listening`, `${server.pid} partial line`]);
+      expect(proxyLines).toContain("info 🚀 Starting MCP server...");
+      expect(stderr.lines).toContain("listening");
+      expect(stderr.lines).toContain("partial line");
+    } finally {
+      await teardown();
+    }
+  });
+
+  it("Log file - LogFiles prefixes lines and rotates each file by size", () => {
+    const dir = mkdtempSync(join(tmpdir(), "mcpmon-log-file-"));
+    const path = join(dir, "mcpmon.log");
+
+    try {
+      const files = new LogFiles(path, { maxBytes: 200, maxFiles: 2 }, 4242);
+      files.proxy("warn", "⚠️  first\nsecond");
+      files.server("server says hi", 4250);
+      files.close();
+
+      const proxyLines = readFileSync(path, "utf8").trimEnd().split("\n");
+      expect(proxyLines).toEqual([
+        expect.stringMatching(/^\d{4}-\d\d-\d\dT[\d:.]+Z \[4242\] warn: ⚠️  first$/),
+        expect.stringMatching(/Z \[4242\] warn: second$/),
+      ]);
+      expect(serverLogPath(path)).toBe(join(dir, "mcpmon.server.log"));
+      expect(readFileSync(serverLogPath(path), "utf8")).toMatch(/Z \[4250\] server says hi\n$/);
+
+      // 50-byte lines: four fit in 200 bytes, so ten lines rotate twice and drop the oldest file
+      const file = new RotatingLogFile(join(dir, "rotate.log"), { maxBytes: 200, maxFiles: 2 });
+      for (let i = 0; i < 10; i++) file.writeLine(String(i).padEnd(49, "."));
+      file.close();
+      const firstChars = (name: string) =>
+        readFileSync(join(dir, name), "utf8")
+          .trimEnd()
+          .split("\n")
+          .map((line) => line[0])
+          .join("");
+      expect(firstChars("rotate.log")).toBe("89");
+      expect(firstChars("rotate.log.1")).toBe("4567");
+      expect(firstChars("rotate.log.2")).toBe("0123");
+      expect(existsSync(join(dir, "rotate.log.3"))).toBe(false);
+
+      // Reopening continues the current file's size count
+      const reopened = new RotatingLogFile(join(dir, "rotate.log"), { maxBytes: 200, maxFiles: 2 });
+      for (let i = 0; i < 3; i++) reopened.writeLine("x".repeat(49));
+      reopened.close();
+      expect(firstChars("rotate.log")).toBe("x");
+      expect(firstChars("rotate.log.1")).toBe("89xx");
+      expect(firstChars("rotate.log.2")).toBe("4567");
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("Log file - sizes accept K, M and G suffixes", () => {
+    expect(parseByteSize("4096")).toBe(4096);
+    expect(parseByteSize("512K")).toBe(512 * 1024);
+    expect(parseByteSize("10MB")).toBe(10 * 1024 * 1024);
+    expect(parseByteSize("1.5g")).toBe(1.5 * 1024 ** 3);
+    expect(() => parseByteSize("lots")).toThrow('Invalid size "lots"');
+  });
+});
@@ -0,0 +1,112 @@
+/// <reference path="./global.d.ts" />
+/**
+ * Behavioral test for leveled logging
+ *
+ * The proxy logs through the Logger injected with its dependencies, at error through trace, or
+ * by default to the injected stderr stream. StreamLogger filters by level and writes text or one
+ * JSON record per line.
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { StreamLogger, parseLogLevel, resolveLogLevel } from "../../src/logger.js";
+import type { LogLevel, Logger } from "../../src/logger.js";
+import { collectOutput, setupProxyTest, waitForSpawns, waitForStable } from "./test_helper.js";
+
+/** A Logger that keeps every message with its level */
+function recordingLogger() {
+  const messages: Array<{ level: LogLevel; text: string }> = [];
+  const record =
+    (level: LogLevel) =>
+    (...args: unknown[]) =>
+      messages.push({ level, text: args.map(String).join(" ") });
+  const logger: Logger = {
+    error: record("error"),
+    warn: record("warn"),
+    info: record("info"),
+    debug: record("debug"),
+    trace: record("trace"),
+  };
+  return { logger, messages };
+}
+
+describe("Test Suite", () => {
+  it("Logger - the proxy logs through the injected logger with levels", async () => {
+    const { logger, messages } = recordingLogger();
+    const { proxy, procManager, stderrReader, teardown } = setupProxyTest({}, { logger });
+    const stderr = collectOutput(stderrReader);
+
+    try {
+      proxy.start();
+      await waitForSpawns(procManager, 1);
+      const server = procManager.getLastSpawnedProcess()!;
+      server.simulateStderr("server says hi\n");
+      server.simulateExit(1);
+      await waitForSpawns(procManager, 2);
+      await waitForStable(50);
+
+      expect(messages).toContainEqual({ level: "info", text: "🚀 Starting MCP server..." });
+      expect(messages).toContainEqual({
+        level: "warn",
+        text: "⚠️  Server exited unexpectedly with code: 1",
+      });
+
+      // Only the server's own output is left on stderr
+      expect(stderr.lines).toEqual(["server says hi"]);
+    } finally {
+      await teardown();
+    }
+  });
+
+  it("Logger - without a logger, proxy logs go to the injected stderr", async () => {
+    const { proxy, procManager, stderrReader, teardown } = setupProxyTest();
+    const stderr = collectOutput(stderrReader);
+
+    try {
+      proxy.start();
+      await waitForSpawns(procManager, 1);
+      await waitForStable(50);
+      expect(stderr.lines).toContain("✅ Watching /test/server.js for changes");
+    } finally {
+      await teardown();
+    }
+  });
+
+  it("Logger - StreamLogger filters by level and writes JSON records", () => {
+    const lines: string[] = [];
+    const text = new StreamLogger({ level: "warn", write: (line) => lines.push(line) });
+    text.info("hidden");
+    text.warn("⚠️  careful:", 3);
+    text.error(new Error("boom").message);
+    expect(lines).toEqual(["⚠️  careful: 3", "boom"]);
+    expect(text.isEnabled("debug")).toBe(false);
+
+    const records: string[] = [];
+    const json = new StreamLogger({
+      level: "trace",
+      format: "json",
+      fields: { pid: 42 },
+      write: (line) => records.push(line),
+    });
+    json.info("\n🔄 File change detected, restarting server...");
+    json.trace("line one\nline two");
+    expect(records.map((line) => JSON.parse(line))).toEqual([
+      {
+        time: expect.stringMatching(/Z$/),
+        level: "info",
+        msg: "File change detected, restarting server...",
+        pid: 42,
+      },
+      { time: expect.any(String), level: "trace", msg: "line one\nline two", pid: 42 },
+    ]);
+  });
+
+  it("Logger - level flags: --log-level wins over --quiet, which wins over --verbose", () => {
+    expect(resolveLogLevel({})).toBe("info");
+    expect(resolveLogLevel({ verbose: true })).toBe("debug");
+    expect(resolveLogLevel({ quiet: true, verbose: true })).toBe("error");
+    expect(resolveLogLevel({ logLevel: "TRACE", quiet: true })).toBe("trace");
+    expect(() => parseLogLevel("loud")).toThrow(
+      'Invalid log level "loud" (expected error, warn, info, debug, trace)'
+    );
+  });
+});
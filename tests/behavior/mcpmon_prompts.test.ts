@@ -0,0 +1,192 @@
+/// <reference path="./global.d.ts" />
+/**
+ * Behavioral test for the diagnostic prompts
+ *
+ * The proxy adds debug_startup_failure, analyze_restart_loop, check_file_watch and
+ * performance_analysis to prompts/list and answers prompts/get for them itself, embedding the
+ * captured stderr, restart history and file events as mcpmon:// resources.
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import {
+  collectOutput,
+  getStdinMessages,
+  sendMessage,
+  serveRequests,
+  setupProxyTest,
+  waitForSpawns,
+  waitForStable,
+} from "./test_helper.js";
+
+/** A server with one prompt named like an mcpmon prompt and one of its own */
+function withPrompts(message: any): object {
+  if (message.method === "prompts/list") {
+    return { result: { prompts: [{ name: "summarize" }, { name: "check_file_watch" }] } };
+  }
+  if (message.method === "tools/list") return { result: { tools: [] } };
+  return { error: { code: -32601, message: "Method not found" } };
+}
+
+async function startSession(respond: (message: any) => object = withPrompts, config = {}) {
+  const context = setupProxyTest(config);
+  const output = collectOutput(context.stdoutReader);
+  collectOutput(context.stderrReader);
+  const answered = new Set<unknown>();
+  const request = async (id: number, method: string, params?: object) => {
+    await sendMessage(context.stdinWriter, { jsonrpc: "2.0", id, method, params });
+    await waitForStable(30);
+    serveRequests(context.procManager.getLastSpawnedProcess()!, answered, respond);
+    await waitForStable(30);
+    return output.messages().find((message) => message.id === id);
+  };
+
+  context.proxy.start();
+  await waitForSpawns(context.procManager, 1);
+  await waitForStable(50);
+  return { ...context, request };
+}
+
+/** The text of every message in a prompt, embedded resources included */
+function promptText(result: any): string {
+  return result.messages
+    .map((m: any) => (m.content.type === "text" ? m.content.text : m.content.resource.text))
+    .join("\n");
+}
+
+describe("Test Suite", () => {
+  it("mcpmon prompts - merged into prompts/list, shadowing same-named server prompts", async () => {
+    const { request, procManager, teardown } = await startSession();
+
+    try {
+      const list = await request(1, "prompts/list");
+      expect(list.result.prompts.map((p: any) => p.name)).toEqual([
+        "summarize",
+        "debug_startup_failure",
+        "analyze_restart_loop",
+        "check_file_watch",
+        "performance_analysis",
+      ]);
+
+      // A server without prompts gets mcpmon's instead of "method not found"
+      const toolsOnly = await startSession(() => ({ error: { code: -32601, message: "nope" } }));
+      try {
+        const own = await toolsOnly.request(1, "prompts/list");
+        expect(own.result.prompts).toHaveLength(4);
+      } finally {
+        await toolsOnly.teardown();
+      }
+
+      // prompts/get for an mcpmon prompt never reaches the server
+      const watch = await request(2, "prompts/get", { name: "check_file_watch" });
+      expect(watch.result.messages[0].content.text).toContain("mcpmon watches: /test/server.js");
+      const forwarded = getStdinMessages(procManager.getLastSpawnedProcess()!);
+      expect(forwarded.map((m) => m.method)).not.toContain("prompts/get");
+    } finally {
+      await teardown();
+    }
+  });
+
+  it("mcpmon prompts - debug_startup_failure embeds stderr of the crashed server", async () => {
+    const { request, procManager, teardown } = await startSession(withPrompts, {
+      env: { API_TOKEN: "sk-live-123", DATABASE_HOST: "db.internal" },
+    });
+
+    try {
+      const crashed = procManager.getLastSpawnedProcess()!;
+      crashed.simulateStderr("Error: Cannot find module './db.js'\n");
+      await waitForStable(30);
+      crashed.simulateExit(1);
+      await waitForSpawns(procManager, 2);
+      await waitForStable(50);
+
+      const result = (await request(1, "prompts/get", { name: "debug_startup_failure" })).result;
+      expect(result.messages[0].content.text).toContain("Unexpected exits in the last 15m: 1");
+      expect(result.messages[0].content.text).toContain(`PID ${crashed.pid} exited with code 1`);
+      const embedded = result.messages.slice(1).map((m: any) => m.content);
+      expect(embedded.every((content: any) => content.type === "resource")).toBe(true);
+      const serverLog = embedded.find(
+        (content: any) => content.resource.uri === `mcpmon://logs/server/${crashed.pid}`
+      );
+      expect(serverLog.resource.text).toContain("Cannot find module './db.js'");
+
+      // Environment names are only included on request, values never
+      const config = (id: number, args: object) =>
+        request(id, "prompts/get", { name: "debug_startup_failure", arguments: args }).then(
+          (response) =>
+            response.result.messages.find((m: any) => m.content.resource?.uri === "mcpmon://config")
+              .content.resource.text
+        );
+      const withoutEnv = JSON.parse(await config(2, {}));
+      expect(withoutEnv.env).toBeUndefined();
+      expect(withoutEnv.envNames).toBeUndefined();
+      const withEnv = await config(3, { include_env: "true" });
+      expect(JSON.parse(withEnv).envNames).toEqual(["API_TOKEN", "DATABASE_HOST"]);
+      expect(JSON.parse(withEnv).env).toBeUndefined();
+      expect(withEnv).not.toContain("sk-live-123");
+      expect(withEnv).not.toContain("db.internal");
+    } finally {
+      await teardown();
+    }
+  });
+
+  it("mcpmon prompts - analyze_restart_loop counts exits and file-change restarts", async () => {
+    const { request, procManager, fs, teardown } = await startSession();
+
+    try {
+      fs.triggerFileEvent("/test/server.js", "modify");
+      await waitForStable(100);
+      procManager.getLastSpawnedProcess()!.simulateExit(0);
+      await waitForSpawns(procManager, 2);
+      await waitForStable(100);
+
+      // Answering the list refresh completes the restart
+      await request(1, "tools/list");
+      procManager.getLastSpawnedProcess()!.simulateExit(1);
+      await waitForSpawns(procManager, 3);
+      await waitForStable(50);
+
+      const loop = await request(2, "prompts/get", {
+        name: "analyze_restart_loop",
+        arguments: { threshold: "2", time_window: "5m" },
+      });
+      const text = loop.result.messages[0].content.text;
+      expect(text).toContain("went down 2 times: 1 unexpected exits and 1 restarts");
+      expect(text).toContain("at or above the threshold of 2");
+      expect(text).toMatch(/File change detected: completed in \d+ms/);
+      expect(text).toContain("modify /test/server.js");
+      expect(promptText(loop.result)).toContain('"restarts": 1');
+
+      const invalid = await request(3, "prompts/get", {
+        name: "analyze_restart_loop",
+        arguments: { time_window: "soon" },
+      });
+      expect(invalid.error).toMatchObject({ code: -32602, data: { name: "analyze_restart_loop" } });
+    } finally {
+      await teardown();
+    }
+  });
+
+  it("mcpmon prompts - performance_analysis summarizes request latency", async () => {
+    const { request, teardown } = await startSession();
+
+    try {
+      await request(1, "tools/list");
+      await request(2, "tools/list");
+
+      const withMetrics = await request(3, "prompts/get", { name: "performance_analysis" });
+      expect(withMetrics.result.messages[0].content.text).toMatch(
+        /Requests answered: 2\n- tools\/list: 2x, avg \d+ms, p95 \d+ms, max \d+ms/
+      );
+      expect(withMetrics.result.messages[1].content.resource.uri).toBe("mcpmon://stats");
+
+      const withoutMetrics = await request(4, "prompts/get", {
+        name: "performance_analysis",
+        arguments: { time_period: "30m", include_metrics: "false" },
+      });
+      expect(withoutMetrics.result.messages).toHaveLength(1);
+      expect(withoutMetrics.result.description).toContain("last 30m");
+    } finally {
+      await teardown();
+    }
+  });
+});
@@ -0,0 +1,130 @@
+/// <reference path="./global.d.ts" />
+/**
+ * Behavioral test for readiness detection after restart
+ *
+ * With readyProbe or readyPattern configured, the proxy should stop waiting as soon as the
+ * restarted server signals readiness, keeping readyDelay only as an upper bound.
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import {
+  collectOutput,
+  getStdinMessages,
+  setupProxyTest,
+  simulateRestart,
+  waitForSpawns,
+  waitForStable,
+} from "./test_helper.js";
+
+describe("Test Suite", () => {
+  it("Readiness - ping probe ends the ready wait early", async () => {
+    const { proxy, procManager, fs, teardown } = setupProxyTest({
+      restartDelay: 50,
+      readyDelay: 5000,
+      readyProbe: "ping",
+    });
+
+    try {
+      proxy.start();
+      await waitForSpawns(procManager, 1);
+      await waitForStable(50);
+
+      await simulateRestart(procManager, fs);
+      const newProcess = procManager.getLastSpawnedProcess()!;
+      await waitForStable(100);
+
+      const ping = getStdinMessages(newProcess).find((m) => m.method === "ping");
+      expect(ping).toBeTruthy();
+      newProcess.simulateStdout(JSON.stringify({ jsonrpc: "2.0", id: ping.id, result: {} }) + "\n");
+      await waitForStable(100);
+
+      // tools/list is only requested once the server is ready - well before readyDelay
+      const toolsRequest = getStdinMessages(newProcess).find((m) => m.method === "tools/list");
+      expect(toolsRequest).toBeTruthy();
+    } finally {
+      await teardown();
+    }
+  });
+
+  it("Readiness - stderr pattern marks the server ready", async () => {
+    const { proxy, procManager, fs, stderrReader, teardown } = setupProxyTest({
+      restartDelay: 50,
+      readyDelay: 5000,
+      readyPattern: "listening on stdio",
+    });
+    collectOutput(stderrReader);
+
+    try {
+      proxy.start();
+      await waitForSpawns(procManager, 1);
+      await waitForStable(50);
+
+      await simulateRestart(procManager, fs);
+      const newProcess = procManager.getLastSpawnedProcess()!;
+      await waitForStable(100);
+      expect(getStdinMessages(newProcess).some((m) => m.method === "tools/list")).toBe(false);
+
+      // Pattern split across chunks is still recognised
+      newProcess.simulateStderr("booting... listening on ");
+      newProcess.simulateStderr("stdio\n");
+      await waitForStable(100);
+
+      expect(getStdinMessages(newProcess).some((m) => m.method === "tools/list")).toBe(true);
+    } finally {
+      await teardown();
+    }
+  });
+
+  it("Readiness - no fixed killDelay sleep once the old server has exited", async () => {
+    const { proxy, procManager, fs, teardown } = setupProxyTest({
+      restartDelay: 50,
+      killDelay: 2000,
+      readyDelay: 5000,
+      readyProbe: "ping",
+    });
+
+    try {
+      proxy.start();
+      await waitForSpawns(procManager, 1);
+      await waitForStable(50);
+
+      const startedAt = Date.now();
+      await simulateRestart(procManager, fs);
+      const newProcess = procManager.getLastSpawnedProcess()!;
+      await waitForStable(50);
+      const ping = getStdinMessages(newProcess).find((m) => m.method === "ping");
+      newProcess.simulateStdout(JSON.stringify({ jsonrpc: "2.0", id: ping.id, result: {} }) + "\n");
+      await waitForStable(100);
+
+      // Ready and queried as soon as the probe was answered - not killDelay later
+      expect(getStdinMessages(newProcess).some((m) => m.method === "tools/list")).toBe(true);
+      expect(Date.now() - startedAt).toBeLessThan(1000);
+    } finally {
+      await teardown();
+    }
+  });
+
+  it("Readiness - falls back to readyDelay when the server never answers", async () => {
+    const { proxy, procManager, fs, teardown } = setupProxyTest({
+      restartDelay: 50,
+      readyDelay: 300,
+      readyProbe: "ping",
+    });
+
+    try {
+      proxy.start();
+      await waitForSpawns(procManager, 1);
+      await waitForStable(50);
+
+      await simulateRestart(procManager, fs);
+      const newProcess = procManager.getLastSpawnedProcess()!;
+      await waitForStable(150);
+      expect(getStdinMessages(newProcess).some((m) => m.method === "tools/list")).toBe(false);
+
+      await waitForStable(300);
+      expect(getStdinMessages(newProcess).some((m) => m.method === "tools/list")).toBe(true);
+    } finally {
+      await teardown();
+    }
+  });
+});
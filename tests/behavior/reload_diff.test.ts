@@ -0,0 +1,111 @@
+/// <reference path="./global.d.ts" />
+/**
+ * Behavioral test for the reload diff report
+ *
+ * Covers how tool/resource/prompt lists are compared across a restart: added, removed and
+ * renamed items, field-level changes inside schemas, and the human-readable stderr rendering.
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { diffJson, diffLists, formatReloadDiff, isEmptyDiff } from "../../src/diff.js";
+
+describe("Test Suite", () => {
+  it("Reload diff - detects added, removed and renamed items", () => {
+    const diff = diffLists(
+      "tools",
+      [
+        { name: "echo", description: "Echo" },
+        { name: "search", description: "Find things" },
+        { name: "legacy" },
+      ],
+      [
+        { name: "echo", description: "Echo" },
+        { name: "find", description: "Find things" },
+        { name: "fresh" },
+      ]
+    );
+
+    expect(diff.renamed).toEqual([{ from: "search", to: "find" }]);
+    expect(diff.added).toEqual(["fresh"]);
+    expect(diff.removed).toEqual(["legacy"]);
+    expect(diff.changed).toEqual([]);
+  });
+
+  it("Reload diff - reports field-level schema changes and ignores key order", () => {
+    const before = {
+      name: "search",
+      inputSchema: { type: "object", properties: { query: { type: "string" } } },
+    };
+    const after = {
+      inputSchema: {
+        properties: { query: { type: "number" }, limit: { type: "number" } },
+        type: "object",
+      },
+      name: "search",
+    };
+
+    expect(diffJson(before, { ...before })).toEqual([]);
+    expect(diffLists("tools", [before], [after]).changed).toEqual([
+      {
+        name: "search",
+        changes: [
+          { path: "inputSchema.properties.limit", type: "added", after: { type: "number" } },
+          {
+            path: "inputSchema.properties.query.type",
+            type: "changed",
+            before: "string",
+            after: "number",
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("Reload diff - keys resources by uri and templates by uriTemplate", () => {
+    const resources = diffLists(
+      "resources",
+      [{ uri: "file:///a", name: "same" }],
+      [{ uri: "file:///b", name: "same" }]
+    );
+    const templates = diffLists("resourceTemplates", [], [{ uriTemplate: "db://{table}" }]);
+
+    expect(resources.renamed).toEqual([{ from: "file:///a", to: "file:///b" }]);
+    expect(templates.added).toEqual(["db://{table}"]);
+    expect(isEmptyDiff(diffLists("prompts", [{ name: "p" }], [{ name: "p" }]))).toBe(true);
+  });
+
+  it("Reload diff - formats a readable report", () => {
+    const empty = { added: [], removed: [], renamed: [], changed: [] };
+    const report = formatReloadDiff({
+      generation: 2,
+      timestamp: 0,
+      tools: diffLists(
+        "tools",
+        [{ name: "echo", description: "Echo" }],
+        [{ name: "echo", description: "Echo text" }, { name: "add" }]
+      ),
+      resources: empty,
+      resourceTemplates: empty,
+      prompts: null,
+    });
+
+    expect(report.split("\n")).toEqual([
+      "📝 Reload diff:",
+      "  tools:",
+      "    + add",
+      "    ~ echo",
+      '        description: "Echo" → "Echo text"',
+      "  prompts: not compared (no previous snapshot)",
+    ]);
+    expect(
+      formatReloadDiff({
+        generation: 3,
+        timestamp: 0,
+        tools: empty,
+        resources: empty,
+        resourceTemplates: empty,
+        prompts: empty,
+      })
+    ).toBe("📋 No tool, resource or prompt changes detected");
+  });
+});
@@ -0,0 +1,138 @@
+/// <reference path="./global.d.ts" />
+/**
+ * Behavioral test for full MCP session replay after restart
+ *
+ * Besides initialize, the client shapes the session with notifications/initialized,
+ * logging/setLevel and resources/subscribe. A restarted server must receive all of them,
+ * in protocol order, before any buffered client traffic.
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import {
+  collectOutput,
+  getStdinMessages,
+  sendMessage,
+  serveRequests,
+  setupProxyTest,
+  waitForSpawns,
+  waitForStable,
+} from "./test_helper.js";
+
+describe("Test Suite", () => {
+  it("Session replay - restores initialized state, logging level and subscriptions", async () => {
+    const { proxy, procManager, fs, stdinWriter, stdoutReader, teardown } = setupProxyTest({
+      restartDelay: 50,
+    });
+    collectOutput(stdoutReader);
+    const send = (message: object) => sendMessage(stdinWriter, message);
+
+    try {
+      proxy.start();
+      await waitForSpawns(procManager, 1);
+      await waitForStable(50);
+      const initialProcess = procManager.getLastSpawnedProcess()!;
+
+      await send({ jsonrpc: "2.0", id: 1, method: "initialize", params: { capabilities: {} } });
+      await send({ jsonrpc: "2.0", method: "notifications/initialized" });
+      await send({ jsonrpc: "2.0", id: 2, method: "logging/setLevel", params: { level: "debug" } });
+      await send({
+        jsonrpc: "2.0",
+        id: 3,
+        method: "resources/subscribe",
+        params: { uri: "file:///a" },
+      });
+      await send({
+        jsonrpc: "2.0",
+        id: 4,
+        method: "resources/subscribe",
+        params: { uri: "file:///b" },
+      });
+      await send({
+        jsonrpc: "2.0",
+        id: 5,
+        method: "resources/unsubscribe",
+        params: { uri: "file:///b" },
+      });
+      await waitForStable(50);
+
+      // Restart, with a client request arriving while the server is down
+      fs.triggerFileEvent("/test/server.js", "modify");
+      await waitForStable(100);
+      await send({ jsonrpc: "2.0", id: 6, method: "tools/call", params: { name: "echo" } });
+      initialProcess.simulateExit(0);
+      await waitForSpawns(procManager, 2);
+      const newProcess = procManager.getLastSpawnedProcess()!;
+
+      const answered = new Set<unknown>();
+      for (let i = 0; i < 10; i++) {
+        await waitForStable(50);
+        serveRequests(newProcess, answered, () => ({ result: {} }));
+      }
+
+      const methods = getStdinMessages(newProcess).map((m) => m.method);
+      expect(methods.slice(0, 5)).toEqual([
+        "initialize",
+        "notifications/initialized",
+        "logging/setLevel",
+        "resources/subscribe",
+        "tools/call",
+      ]);
+
+      const subscriptions = getStdinMessages(newProcess).filter(
+        (m) => m.method === "resources/subscribe"
+      );
+      expect(subscriptions.map((m) => m.params.uri)).toEqual(["file:///a"]);
+    } finally {
+      await teardown();
+    }
+  });
+
+  it("Session replay - after a crash, client requests wait for the replayed session", async () => {
+    const { proxy, procManager, stdinWriter, stdoutReader, teardown } = setupProxyTest();
+    const output = collectOutput(stdoutReader);
+    const send = (message: object) => sendMessage(stdinWriter, message);
+
+    try {
+      proxy.start();
+      await waitForSpawns(procManager, 1);
+      await waitForStable(50);
+      const crashed = procManager.getLastSpawnedProcess()!;
+
+      await send({ jsonrpc: "2.0", id: 1, method: "initialize", params: { capabilities: {} } });
+      crashed.simulateStdout(JSON.stringify({ jsonrpc: "2.0", id: 1, result: {} }) + "\n");
+      await send({ jsonrpc: "2.0", method: "notifications/initialized" });
+      await waitForStable(50);
+
+      // One request right after the crash, one while the replayed initialize is unanswered
+      crashed.simulateExit(1);
+      await send({ jsonrpc: "2.0", id: 2, method: "tools/call", params: { name: "echo" } });
+      await waitForSpawns(procManager, 2);
+      const restarted = procManager.getLastSpawnedProcess()!;
+      await waitForStable(50);
+      await send({ jsonrpc: "2.0", id: 3, method: "tools/call", params: { name: "echo" } });
+      await waitForStable(50);
+      expect(getStdinMessages(restarted).map((m) => m.method)).toEqual(["initialize"]);
+
+      const answered = new Set<unknown>();
+      for (let i = 0; i < 5; i++) {
+        serveRequests(restarted, answered, () => ({ result: {} }));
+        await waitForStable(50);
+      }
+
+      expect(getStdinMessages(restarted).map((m) => m.id ?? m.method)).toEqual([
+        expect.stringMatching(/^mcpmon-/),
+        "notifications/initialized",
+        2,
+        3,
+      ]);
+      // Nothing was written to the dead server or failed back to the client
+      expect(getStdinMessages(crashed).map((m) => m.id ?? m.method)).toEqual([
+        1,
+        "notifications/initialized",
+      ]);
+      expect(output.messages().filter((m) => m.error)).toEqual([]);
+    } finally {
+      await teardown();
+    }
+  });
+});
@@ -0,0 +1,69 @@
+/// <reference path="./global.d.ts" />
+/**
+ * Behavioral test for strict stdout mode
+ *
+ * Stray prints on server stdout corrupt the MCP stream. With strictStdout the proxy forwards
+ * only JSON-RPC lines to the client and redirects everything else to stderr, tagged and counted.
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { collectOutput, setupProxyTest, waitForSpawns, waitForStable } from "./test_helper.js";
+
+const RESPONSE = { jsonrpc: "2.0", id: 1, result: { tools: [] } };
+const NOTIFICATION = { jsonrpc: "2.0", method: "notifications/message", params: { data: "hi" } };
+const MALFORMED = [
+  '{"jsonrpc":"2.0","id":1,"result":{}} stray print',
+  '{"jsonrpc":"2.0","id":1,"result":[1,,tru]}',
+  '{"jsonrpc":"2.0","id":1,"result":{}}{"jsonrpc":"2.0","id":2,"result":{}}',
+];
+
+async function runScenario(strictStdout: boolean) {
+  const { proxy, procManager, stdoutReader, stderrReader, teardown } = setupProxyTest({
+    strictStdout,
+  });
+  const stdout = collectOutput(stdoutReader);
+  const stderr = collectOutput(stderrReader);
+
+  try {
+    proxy.start();
+    await waitForSpawns(procManager, 1);
+    const server = procManager.getLastSpawnedProcess()!;
+
+    server.simulateStdout("Server starting on stdio\n");
+    server.simulateStdout(JSON.stringify(RESPONSE) + "\n");
+    server.simulateStdout('{"debug": true}\n\n');
+    server.simulateStdout(JSON.stringify(NOTIFICATION) + "\n");
+    server.simulateStdout("[1, 2, 3]\n");
+    // Envelopes that look right at the top level but are not one complete, valid message
+    for (const line of MALFORMED) server.simulateStdout(line + "\n");
+    await waitForStable(100);
+
+    // stderr also carries the proxy's own log lines
+    const noise = stderr.lines.filter((line) => line.startsWith("[stdout-noise"));
+    return { stdout: stdout.lines, stderr: noise };
+  } finally {
+    await teardown();
+  }
+}
+
+describe("Test Suite", () => {
+  it("Strict stdout - only JSON-RPC lines reach the client", async () => {
+    const { stdout, stderr } = await runScenario(true);
+
+    expect(stdout.map((line) => JSON.parse(line))).toEqual([RESPONSE, NOTIFICATION]);
+    expect(stderr).toEqual([
+      "[stdout-noise #1] Server starting on stdio",
+      '[stdout-noise #2] {"debug": true}',
+      "[stdout-noise #3] [1, 2, 3]",
+      ...MALFORMED.map((line, i) => `[stdout-noise #${i + 4}] ${line}`),
+    ]);
+  });
+
+  it("Strict stdout - disabled by default", async () => {
+    const { stdout, stderr } = await runScenario(false);
+
+    expect(stdout).toContain("Server starting on stdio");
+    expect(stdout).toHaveLength(8);
+    expect(stderr).toEqual([]);
+  });
+});
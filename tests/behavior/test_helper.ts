@@ -7,8 +7,9 @@
  */
 
 import { MCPProxy, MCPProxyConfig } from "../../src/proxy.js";
-import { MockProcessManager } from "../mocks/MockProcessManager.js";
+import { MockManagedProcess, MockProcessManager } from "../mocks/MockProcessManager.js";
 import { MockFileSystem } from "../mocks/MockFileSystem.js";
+import type { ProxyDependencies } from "../../src/interfaces.js";
 
 export interface TestContext {
   proxy: MCPProxy;
@@ -20,7 +21,7 @@ export interface TestContext {
   teardown: () => Promise<void>;
 }
 
-export interface TestProxyConfig {
+type BaseTestConfig = {
   command?: string;
   commandArgs?: string[];
   entryFile?: string;
@@ -29,9 +30,12 @@ export interface TestProxyConfig {
   killDelay?: number;
   readyDelay?: number;
   env?: Record<string, string>;
-}
+};
+
+/** Test config - any other MCPProxyConfig option is passed through unchanged */
+export type TestProxyConfig = BaseTestConfig & Omit<Partial<MCPProxyConfig>, keyof BaseTestConfig>;
 
-const DEFAULT_CONFIG: Required<TestProxyConfig> = {
+const DEFAULT_CONFIG: Required<BaseTestConfig> = {
   command: "node",
   commandArgs: ["/test/server.js"],
   entryFile: "/test/server.js",
@@ -46,7 +50,10 @@ const DEFAULT_CONFIG: Required<TestProxyConfig> = {
  * Sets up a complete test environment with MCPProxy and mocks
  * Eliminates globalThis usage and provides clean teardown
  */
-export function setupProxyTest(config: TestProxyConfig = {}): TestContext {
+export function setupProxyTest(
+  config: TestProxyConfig = {},
+  dependencies: Partial<Pick<ProxyDependencies, "logger" | "logSink" | "transcript">> = {}
+): TestContext {
   const testConfig = { ...DEFAULT_CONFIG, ...config };
 
   // Create mocks
@@ -77,17 +84,9 @@ export function setupProxyTest(config: TestProxyConfig = {}): TestContext {
       exit: (code: number) => {
         /* Mock exit - don't actually exit during tests */
       },
+      ...dependencies,
     },
-    {
-      command: testConfig.command,
-      commandArgs: testConfig.commandArgs,
-      entryFile: testConfig.entryFile,
-      watchTargets: testConfig.watchTargets,
-      restartDelay: testConfig.restartDelay,
-      killDelay: testConfig.killDelay,
-      readyDelay: testConfig.readyDelay,
-      env: testConfig.env,
-    }
+    testConfig
   );
 
   // Get stream interfaces for test control
@@ -190,3 +189,88 @@ export async function simulateRestart(
   // Wait for new process to spawn
   await waitForSpawns(procManager, initialSpawnCount + 1);
 }
+
+/**
+ * Continuously reads newline-delimited output written by the proxy to the client.
+ * Reading in the background keeps the proxy's stdout from blocking on backpressure.
+ */
+export function collectOutput(reader: ReadableStreamDefaultReader<Uint8Array>): {
+  lines: string[];
+  messages: () => any[];
+} {
+  const lines: string[] = [];
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  (async () => {
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const parts = buffer.split("\n");
+        buffer = parts.pop() || "";
+        lines.push(...parts.filter((line) => line.trim()));
+      }
+    } catch {
+      // Reader released during teardown
+    }
+  })();
+
+  return {
+    lines,
+    messages: () =>
+      lines.flatMap((line) => {
+        try {
+          return [JSON.parse(line)];
+        } catch {
+          return [];
+        }
+      }),
+  };
+}
+
+/**
+ * Decodes everything a mock process received on stdin into parsed JSON-RPC messages
+ */
+export function getStdinMessages(process: MockManagedProcess): any[] {
+  const text = process.stdinWrites.map((w) => new TextDecoder().decode(w.data)).join("");
+  return text
+    .split("\n")
+    .filter((line) => line.trim())
+    .flatMap((line) => {
+      try {
+        return [JSON.parse(line)];
+      } catch {
+        return [];
+      }
+    });
+}
+
+/**
+ * Writes one JSON-RPC message to the proxy's stdin, as the client would
+ */
+export function sendMessage(
+  writer: WritableStreamDefaultWriter<Uint8Array>,
+  message: object
+): Promise<void> {
+  return writer.write(new TextEncoder().encode(JSON.stringify(message) + "\n"));
+}
+
+/**
+ * Acts as the MCP server: answers every request the process received that is not in answered
+ * yet with respond(message) - a { result } or { error } - and adds its id to answered
+ */
+export function serveRequests(
+  process: MockManagedProcess,
+  answered: Set<unknown>,
+  respond: (message: any) => object
+) {
+  for (const message of getStdinMessages(process)) {
+    if (message.id === undefined || !message.method || answered.has(message.id)) continue;
+    answered.add(message.id);
+    process.simulateStdout(
+      JSON.stringify({ jsonrpc: "2.0", id: message.id, ...respond(message) }) + "\n"
+    );
+  }
+}
@@ -0,0 +1,169 @@
+/// <reference path="./global.d.ts" />
+/**
+ * Behavioral test for session transcripts
+ *
+ * With a transcript sink (--record), every message crossing the proxy is recorded with its
+ * direction and the server generation and PID, messages held during a restart are flagged as
+ * buffered, and restarts and file changes appear inline as markers. Forwarding is unchanged.
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { MockManagedProcess } from "../mocks/MockProcessManager.js";
+import { TranscriptFile } from "../../src/transcript.js";
+import type { TranscriptRecord, TranscriptSink } from "../../src/transcript.js";
+import {
+  collectOutput,
+  sendMessage,
+  serveRequests,
+  setupProxyTest,
+  waitForSpawns,
+  waitForStable,
+} from "./test_helper.js";
+
+/**
+ * Answer every request the server received that it has not answered yet
+ */
+function serve(process: MockManagedProcess, answered: Set<unknown>) {
+  serveRequests(process, answered, (message) =>
+    message.method === "tools/list"
+      ? { result: { tools: [{ name: "echo" }] } }
+      : { error: { code: -32601, message: "Method not found" } }
+  );
+}
+
+describe("Test Suite", () => {
+  it("Transcript - messages in both directions with restart markers and buffered requests", async () => {
+    const records: TranscriptRecord[] = [];
+    const transcript: TranscriptSink = { write: (record) => records.push(record) };
+    const { proxy, procManager, fs, stdinWriter, stdoutReader, stderrReader, teardown } =
+      setupProxyTest({}, { transcript });
+    const output = collectOutput(stdoutReader);
+    collectOutput(stderrReader);
+    const answered = new Set<unknown>();
+    const send = (message: object) => sendMessage(stdinWriter, { jsonrpc: "2.0", ...message });
+
+    try {
+      proxy.start();
+      await waitForSpawns(procManager, 1);
+      await waitForStable(50);
+      const first = procManager.getLastSpawnedProcess()!;
+
+      await send({ id: 1, method: "tools/list" });
+      await waitForStable(30);
+      serve(first, answered);
+      first.simulateStdout("not json\n");
+      await waitForStable(30);
+      await send({ id: 2, method: "resources/read", params: { uri: "mcpmon://stats" } });
+      await waitForStable(30);
+
+      // A request sent while the server restarts waits for the new server
+      fs.triggerFileEvent("/test/server.js", "modify");
+      await waitForStable(100);
+      await send({ id: 3, method: "tools/list" });
+      first.simulateExit(0);
+      await waitForSpawns(procManager, 2);
+      const second = procManager.getLastSpawnedProcess()!;
+      for (let i = 0; i < 5 && output.messages().every((m) => m.id !== 3); i++) {
+        await waitForStable(50);
+        serve(second, answered);
+      }
+
+      const summary = records.map((record) =>
+        record.type === "marker"
+          ? record.event
+          : [
+              record.direction,
+              record.generation,
+              record.message?.id ?? record.raw,
+              record.buffered ? "buffered" : record.proxy ? "proxy" : "",
+            ].join(" ")
+      );
+      expect(summary).toEqual([
+        "server:spawn",
+        "in 1 1 ",
+        "out 1 1 ",
+        "out 1 not json ",
+        "in 1 2 proxy",
+        "out 1 2 proxy",
+        "change",
+        "restart:scheduled",
+        "restart:start",
+        "in 1 3 buffered",
+        "server:exit",
+        "server:spawn",
+        "out 2 3 ",
+        "restart:complete",
+      ]);
+
+      const firstRecord = records[1];
+      expect(firstRecord).toEqual({
+        time: expect.stringMatching(/Z$/),
+        type: "message",
+        direction: "in",
+        generation: 1,
+        pid: first.pid,
+        message: { jsonrpc: "2.0", id: 1, method: "tools/list" },
+      });
+      expect(records.find((r) => r.type === "marker" && r.event === "change")).toMatchObject({
+        changeType: "modify",
+        path: "/test/server.js",
+        action: "restart",
+      });
+      expect(records[records.length - 2]).toMatchObject({ generation: 2, pid: second.pid });
+
+      // The client sees the same traffic as without a transcript
+      expect(output.lines).toContain("not json");
+      expect(output.messages().map((m) => m.id)).toEqual([1, 2, 3]);
+    } finally {
+      await teardown();
+    }
+  });
+
+  it("Transcript - TranscriptFile writes one JSON record per line and starts a new file", () => {
+    const dir = mkdtempSync(join(tmpdir(), "mcpmon-transcript-"));
+    const path = join(dir, "session.jsonl");
+
+    try {
+      const stale = new TranscriptFile(path);
+      stale.write({
+        time: "t0",
+        type: "marker",
+        event: "restart:start",
+        reason: "old",
+        trigger: "change",
+      });
+      stale.close();
+
+      const file = new TranscriptFile(path);
+      file.write({
+        time: "t1",
+        type: "message",
+        direction: "in",
+        generation: 1,
+        pid: 42,
+        buffered: true,
+        message: { jsonrpc: "2.0", id: 7, method: "ping" },
+      });
+      file.close();
+      file.write({ time: "t2", type: "message", direction: "out", generation: 1, pid: 42 });
+
+      const lines = readFileSync(path, "utf8").trimEnd().split("\n");
+      expect(lines.map((line) => JSON.parse(line))).toEqual([
+        {
+          time: "t1",
+          type: "message",
+          direction: "in",
+          generation: 1,
+          pid: 42,
+          buffered: true,
+          message: { jsonrpc: "2.0", id: 7, method: "ping" },
+        },
+      ]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,78 @@
+/// <reference path="./global.d.ts" />
+/**
+ * Behavioral test for serialized outbound writes
+ *
+ * Every destination the proxy writes to goes through a WriteQueue. Concurrent writers must
+ * never hit a locked stream, lines must arrive whole and in order, and a slow sink must hold
+ * writers back instead of letting chunks pile up inside the stream.
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { WriteQueue } from "../../src/write-queue.js";
+
+/**
+ * A sink that takes `delayMs` per chunk and records what it received
+ */
+function slowSink(delayMs: number, highWaterMark = 1) {
+  const received: string[] = [];
+  let inSink = 0;
+  let maxInSink = 0;
+  const decoder = new TextDecoder();
+  const stream = new WritableStream<Uint8Array>(
+    {
+      async write(chunk) {
+        inSink++;
+        maxInSink = Math.max(maxInSink, inSink);
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+        received.push(decoder.decode(chunk));
+        inSink--;
+      },
+    },
+    new CountQueuingStrategy({ highWaterMark })
+  );
+  return { stream, received, maxInSink: () => maxInSink };
+}
+
+describe("Test Suite", () => {
+  it("Write queue - concurrent writers keep order and whole lines", async () => {
+    const sink = slowSink(2);
+    const queue = new WriteQueue(sink.stream);
+
+    const messages = Array.from({ length: 20 }, (_, i) => ({ jsonrpc: "2.0", id: i }));
+    await Promise.all(messages.map((message) => queue.writeMessage(message)));
+
+    expect(sink.received).toEqual(messages.map((message) => JSON.stringify(message) + "\n"));
+    expect(sink.maxInSink()).toBe(1);
+  });
+
+  it("Write queue - writers wait for the sink instead of buffering", async () => {
+    const sink = slowSink(20);
+    const queue = new WriteQueue(sink.stream);
+
+    const first = queue.writeLine("first");
+    const second = queue.writeLine("second");
+    let secondDone = false;
+    second.then(() => (secondDone = true));
+
+    await first;
+    expect(secondDone).toBe(false);
+    await second;
+    expect(sink.received).toEqual(["first\n", "second\n"]);
+  });
+
+  it("Write queue - a failed write is reported to its caller without stalling the queue", async () => {
+    const stream = new WritableStream<Uint8Array>({
+      write() {
+        throw new Error("sink failed");
+      },
+    });
+    const queue = new WriteQueue(stream);
+
+    const lost = queue.writeLine("lost");
+    const after = queue.writeLine("after");
+
+    await expect(lost).rejects.toThrow("sink failed");
+    // The stream is now errored: later writes settle with an error instead of hanging
+    await expect(after).rejects.toThrow();
+  });
+});